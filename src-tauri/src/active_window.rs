@@ -0,0 +1,126 @@
+// 老师正在使用的窗口（提示词模板中的 {active_window}）
+// 发消息时前台是桌宠自己的窗口，所以在模板用到这个变量时，后台定时记录最近一个其他程序的前台窗口标题
+use std::process;
+use std::sync::Mutex;
+use std::time::Duration;
+
+// 前台窗口的检查间隔
+pub const SAMPLE_INTERVAL: Duration = Duration::from_secs(2);
+
+#[derive(Default)]
+struct TrackerState {
+    enabled: bool, // 模板用到了前台窗口
+    running: bool, // 定时检查的线程还在运行
+}
+
+#[derive(Default)]
+pub struct ActiveWindowTracker {
+    state: Mutex<TrackerState>,
+    title: Mutex<String>,
+}
+
+impl ActiveWindowTracker {
+    // 开始或停止记录；需要启动定时检查时先记录一次并返回 true，由调用方启动线程
+    pub fn set_enabled(&self, enabled: bool) -> bool {
+        let start = {
+            let mut state = self.state.lock().unwrap();
+            state.enabled = enabled;
+            let start = enabled && !state.running;
+            state.running |= start;
+            start
+        };
+        if start {
+            self.sample();
+        }
+        start
+    }
+
+    // 定时检查的线程每次检查前调用，停止记录后返回 false，线程退出
+    pub fn keep_running(&self) -> bool {
+        let mut state = self.state.lock().unwrap();
+        state.running = state.enabled;
+        state.running
+    }
+
+    // 最近一个其他程序的窗口标题
+    pub fn title(&self) -> String {
+        self.title.lock().unwrap().clone()
+    }
+
+    pub fn sample(&self) {
+        if let Some((pid, title)) = foreground_window() {
+            if pid != process::id() && !title.trim().is_empty() {
+                *self.title.lock().unwrap() = title.trim().to_string();
+            }
+        }
+    }
+}
+
+// 前台窗口所属的进程和标题，无法获取时为 None
+#[cfg(windows)]
+fn foreground_window() -> Option<(u32, String)> {
+    use windows::Win32::UI::WindowsAndMessaging::{GetForegroundWindow, GetWindowTextW, GetWindowThreadProcessId};
+
+    unsafe {
+        let hwnd = GetForegroundWindow();
+        if hwnd.is_invalid() {
+            return None;
+        }
+        let mut pid = 0u32;
+        GetWindowThreadProcessId(hwnd, Some(&mut pid));
+        let mut buffer = [0u16; 512];
+        let len = GetWindowTextW(hwnd, &mut buffer);
+        Some((pid, String::from_utf16_lossy(&buffer[..len.max(0) as usize])))
+    }
+}
+
+#[cfg(target_os = "macos")]
+fn foreground_window() -> Option<(u32, String)> {
+    // 需要辅助功能权限才能读到窗口标题，没有权限时使用程序名
+    let script = r#"tell application "System Events"
+set frontApp to first application process whose frontmost is true
+set appName to name of frontApp
+set windowTitle to ""
+try
+set windowTitle to name of front window of frontApp
+end try
+return (unix id of frontApp as text) & linefeed & appName & linefeed & windowTitle
+end tell"#;
+    let output = command_output("osascript", &["-e", script])?;
+    let mut lines = output.lines();
+    let pid = lines.next()?.trim().parse().ok()?;
+    let app_name = lines.next().unwrap_or("").trim();
+    let window_title = lines.next().unwrap_or("").trim();
+    let title = if window_title.is_empty() || window_title == app_name {
+        app_name.to_string()
+    } else {
+        format!("{} - {}", window_title, app_name)
+    };
+    Some((pid, title))
+}
+
+// Linux 通过 xdotool 获取（仅 X11，Wayland 下没有通用的方法）
+#[cfg(target_os = "linux")]
+fn foreground_window() -> Option<(u32, String)> {
+    if super::is_wayland_session() {
+        return None;
+    }
+    let output = command_output("xdotool", &["getactivewindow", "getwindowpid", "getwindowname"])?;
+    let mut lines = output.lines();
+    let pid = lines.next()?.trim().parse().ok()?;
+    Some((pid, lines.next().unwrap_or("").to_string()))
+}
+
+#[cfg(not(any(windows, target_os = "macos", target_os = "linux")))]
+fn foreground_window() -> Option<(u32, String)> {
+    None
+}
+
+#[cfg(any(target_os = "macos", target_os = "linux"))]
+fn command_output(program: &str, args: &[&str]) -> Option<String> {
+    let output = process::Command::new(program).args(args).output().ok()?;
+    if !output.status.success() {
+        return None;
+    }
+    Some(String::from_utf8_lossy(&output.stdout).into_owned())
+}
@@ -0,0 +1,285 @@
+// 角色包：骨骼、贴图、心情映射和人设打包在一个目录中，保存在 characters/<id>/
+use serde::{Deserialize, Serialize};
+use std::collections::BTreeMap;
+use std::fs;
+use std::io;
+use std::path::{Component, Path, PathBuf};
+
+use crate::history::now_millis;
+
+const MANIFEST_FILE: &str = "manifest.json";
+
+// zip 中 unix 权限的文件类型位，用于识别符号链接
+const UNIX_FILE_TYPE_MASK: u32 = 0o170000;
+const UNIX_SYMLINK: u32 = 0o120000;
+
+// 内置角色的 id，导入的角色包不能占用
+pub const BUILTIN_CHARACTER_ID: &str = "arona";
+
+// 触摸区域的一种手势反应
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct TouchReaction {
+    pub mood: String,
+    pub lines: Vec<String>,
+}
+
+// 以骨骼为中心的圆形触摸区域，reactions 的键为 tap / doubleTap / longPress
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct TouchRegion {
+    pub id: String,
+    pub name: String,
+    pub bone: String,
+    pub radius: f64, // 相对角色高度的比例
+    pub action: String,
+    pub reactions: BTreeMap<String, TouchReaction>,
+}
+
+// 角色包清单（manifest.json），缺失的字段使用默认值
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct CharacterManifest {
+    pub id: String,
+    pub name: String,
+    pub skeleton: String,                 // .skel 文件名
+    pub atlas: String,                    // .atlas 文件名，贴图与它放在同一目录
+    pub idle_animation: String,           // 待机动画
+    pub default_mood: String,             // 默认心情
+    pub sleepy_mood: String,              // 犯困时段闲置时的心情
+    pub reminder_mood: String,            // 提醒到时间时的心情
+    pub moods: BTreeMap<String, String>,  // 心情 → 动画名
+    pub mouth_slot: String,               // 口型插槽，为空时不做口型同步
+    pub mouth_shapes: Vec<String>,        // 从闭合到张开排列的嘴型附件
+    pub touch_regions: Vec<TouchRegion>,  // 触摸区域，小区域在前
+    pub character_setting: String,        // 角色设定
+    pub reply_format: String,             // 回复格式
+}
+
+pub struct CharacterStore {
+    dir: PathBuf,
+}
+
+impl CharacterStore {
+    pub fn new(dir: PathBuf) -> Self {
+        Self { dir }
+    }
+
+    // 列出已导入的角色包，清单损坏或缺少资源的跳过
+    pub fn list(&self) -> Vec<CharacterManifest> {
+        let Ok(entries) = fs::read_dir(&self.dir) else {
+            return Vec::new();
+        };
+
+        let mut packs: Vec<CharacterManifest> = entries
+            .filter_map(|entry| entry.ok())
+            .filter(|entry| entry.path().is_dir())
+            .filter_map(|entry| {
+                let id = entry.file_name().to_string_lossy().to_string();
+                if id.starts_with('.') {
+                    return None;
+                }
+                match read_manifest(&entry.path()) {
+                    Ok(mut manifest) => {
+                        manifest.id = id;
+                        Some(manifest)
+                    }
+                    Err(e) => {
+                        eprintln!("Skipping character pack {}: {}", id, e);
+                        None
+                    }
+                }
+            })
+            .collect();
+        packs.sort_by(|a, b| a.name.cmp(&b.name));
+        packs
+    }
+
+    // 从目录或 zip 文件导入角色包，已存在同 id 的角色包时覆盖
+    pub fn import(&self, source: &Path) -> Result<CharacterManifest, String> {
+        fs::create_dir_all(&self.dir).map_err(|e| e.to_string())?;
+        let staging = self.dir.join(format!(".import-{}", now_millis()));
+
+        let result = self.import_into(source, &staging);
+        if staging.exists() {
+            let _ = fs::remove_dir_all(&staging);
+        }
+        result
+    }
+
+    fn import_into(&self, source: &Path, staging: &Path) -> Result<CharacterManifest, String> {
+        if source.is_dir() {
+            copy_dir(source, staging)?;
+        } else if source.extension().map_or(false, |ext| ext.eq_ignore_ascii_case("zip")) {
+            let file = fs::File::open(source).map_err(|e| e.to_string())?;
+            let mut archive = zip::ZipArchive::new(file).map_err(|e| format!("无法读取 zip: {}", e))?;
+            extract_zip(&mut archive, staging).map_err(|e| format!("解压失败: {}", e))?;
+        } else {
+            return Err("请选择角色包目录或 zip 文件".to_string());
+        }
+
+        // zip 中的文件常常包在一层目录里
+        let root = find_pack_root(staging).ok_or_else(|| format!("角色包中没有 {}", MANIFEST_FILE))?;
+        let mut manifest = read_manifest(&root)?;
+
+        let fallback = source
+            .file_stem()
+            .map(|stem| stem.to_string_lossy().to_string())
+            .unwrap_or_default();
+        let id = sanitize_id(if manifest.id.is_empty() { &fallback } else { &manifest.id });
+        if id.is_empty() {
+            return Err("角色包 id 无效".to_string());
+        }
+        if id == BUILTIN_CHARACTER_ID {
+            return Err(format!("角色包 id 不能为 {}", BUILTIN_CHARACTER_ID));
+        }
+
+        let target = self.dir.join(&id);
+        if target.exists() {
+            fs::remove_dir_all(&target).map_err(|e| e.to_string())?;
+        }
+        fs::rename(&root, &target).map_err(|e| e.to_string())?;
+
+        manifest.id = id;
+        Ok(manifest)
+    }
+
+    pub fn delete(&self, id: &str) -> Result<(), String> {
+        let id = sanitize_id(id);
+        let target = self.dir.join(&id);
+        if id.is_empty() || !target.is_dir() {
+            return Err(format!("角色包不存在: {}", id));
+        }
+        fs::remove_dir_all(&target).map_err(|e| e.to_string())
+    }
+
+    // 把 <id>/<文件> 形式的相对路径解析为角色包中的文件，不允许跳出角色包目录
+    // 解析符号链接后再检查一次，角色包目录中的符号链接不能指向外面
+    pub fn resolve_file(&self, relative: &str) -> Option<PathBuf> {
+        let path = Path::new(relative);
+        if !path.components().all(|c| matches!(c, Component::Normal(_))) {
+            return None;
+        }
+        let pack = self.dir.join(path.components().next()?).canonicalize().ok()?;
+        let full = self.dir.join(path).canonicalize().ok()?;
+        (full.starts_with(&pack) && full.is_file()).then_some(full)
+    }
+}
+
+// 读取并检查清单：必须有名称、骨骼和 atlas 文件
+fn read_manifest(dir: &Path) -> Result<CharacterManifest, String> {
+    let content = fs::read_to_string(dir.join(MANIFEST_FILE)).map_err(|e| e.to_string())?;
+    let manifest: CharacterManifest =
+        serde_json::from_str(&content).map_err(|e| format!("{} 格式错误: {}", MANIFEST_FILE, e))?;
+
+    if manifest.name.trim().is_empty() {
+        return Err("缺少角色名称 name".to_string());
+    }
+    for file in [&manifest.skeleton, &manifest.atlas] {
+        if file.is_empty() || !dir.join(file).is_file() {
+            return Err(format!("缺少资源文件: {}", file));
+        }
+    }
+    Ok(manifest)
+}
+
+// 清单在根目录，或者在唯一的子目录中
+fn find_pack_root(dir: &Path) -> Option<PathBuf> {
+    if dir.join(MANIFEST_FILE).is_file() {
+        return Some(dir.to_path_buf());
+    }
+    let subdirs: Vec<PathBuf> = fs::read_dir(dir)
+        .ok()?
+        .filter_map(|entry| entry.ok())
+        .map(|entry| entry.path())
+        .filter(|path| path.is_dir())
+        .collect();
+    match subdirs.as_slice() {
+        [only] if only.join(MANIFEST_FILE).is_file() => Some(only.clone()),
+        _ => None,
+    }
+}
+
+// 复制角色包目录，符号链接可能指向角色包之外的文件，跳过
+fn copy_dir(from: &Path, to: &Path) -> Result<(), String> {
+    fs::create_dir_all(to).map_err(|e| e.to_string())?;
+    for entry in fs::read_dir(from).map_err(|e| e.to_string())? {
+        let entry = entry.map_err(|e| e.to_string())?;
+        let file_type = entry.file_type().map_err(|e| e.to_string())?;
+        let target = to.join(entry.file_name());
+        if file_type.is_symlink() {
+            continue;
+        }
+        if file_type.is_dir() {
+            copy_dir(&entry.path(), &target)?;
+        } else {
+            fs::copy(entry.path(), &target).map_err(|e| e.to_string())?;
+        }
+    }
+    Ok(())
+}
+
+// 解压 zip，跳过符号链接和路径跳出解压目录的条目
+fn extract_zip(archive: &mut zip::ZipArchive<fs::File>, to: &Path) -> Result<(), String> {
+    for index in 0..archive.len() {
+        let mut file = archive.by_index(index).map_err(|e| e.to_string())?;
+        if file.unix_mode().map_or(false, |mode| mode & UNIX_FILE_TYPE_MASK == UNIX_SYMLINK) {
+            continue;
+        }
+        let Some(relative) = file.enclosed_name() else {
+            continue;
+        };
+        let path = to.join(relative);
+        if file.is_dir() {
+            fs::create_dir_all(&path).map_err(|e| e.to_string())?;
+            continue;
+        }
+        if let Some(parent) = path.parent() {
+            fs::create_dir_all(parent).map_err(|e| e.to_string())?;
+        }
+        let mut output = fs::File::create(&path).map_err(|e| e.to_string())?;
+        io::copy(&mut file, &mut output).map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
+
+// id 用作目录名和 URL 的一部分，只保留字母、数字、- 和 _
+fn sanitize_id(id: &str) -> String {
+    id.trim()
+        .chars()
+        .filter(|c| c.is_ascii_alphanumeric() || *c == '-' || *c == '_')
+        .collect::<String>()
+        .to_lowercase()
+}
+
+// 解码 URL 中的 %XX
+pub fn percent_decode(input: &str) -> String {
+    let bytes = input.as_bytes();
+    let mut decoded = Vec::with_capacity(bytes.len());
+    let mut i = 0;
+    while i < bytes.len() {
+        if bytes[i] == b'%' && i + 2 < bytes.len() {
+            let hex = std::str::from_utf8(&bytes[i + 1..i + 3]).ok();
+            if let Some(byte) = hex.and_then(|hex| u8::from_str_radix(hex, 16).ok()) {
+                decoded.push(byte);
+                i += 3;
+                continue;
+            }
+        }
+        decoded.push(bytes[i]);
+        i += 1;
+    }
+    String::from_utf8_lossy(&decoded).to_string()
+}
+
+// 根据扩展名返回资源的 Content-Type
+pub fn mime_type(path: &Path) -> &'static str {
+    match path.extension().and_then(|ext| ext.to_str()).map(|ext| ext.to_ascii_lowercase()).as_deref() {
+        Some("png") => "image/png",
+        Some("jpg") | Some("jpeg") => "image/jpeg",
+        Some("webp") => "image/webp",
+        Some("json") => "application/json",
+        Some("atlas") | Some("txt") => "text/plain",
+        _ => "application/octet-stream",
+    }
+}
@@ -0,0 +1,113 @@
+// LLM 对话请求（chat/completions）：由 Rust 端发送，流式回复按 SSE 解析后逐块传给前端
+use futures_util::StreamExt;
+use serde::Serialize;
+use serde_json::Value;
+use tauri::ipc::Channel;
+
+use crate::http_forward::RequestTarget;
+
+// 请求被前端取消时返回的错误（对话和转发共用）
+pub const CHAT_CANCELLED: &str = "请求已取消";
+
+// 错误说明最多保留的字符数（有的服务出错时返回整个 HTML 页面）
+const ERROR_TEXT_LIMIT: usize = 300;
+
+// 传给前端的流式回复：每个 chunk 是一个 ChatCompletionChunk，最后是 done
+#[derive(Clone, Serialize)]
+#[serde(tag = "event", content = "data", rename_all = "camelCase")]
+pub enum ChatEvent {
+    Chunk(Value),
+    Done,
+}
+
+fn describe_error(e: reqwest::Error) -> String {
+    if e.is_timeout() {
+        "请求超时".to_string()
+    } else if e.is_connect() {
+        format!("无法连接到服务: {}", e)
+    } else {
+        e.to_string()
+    }
+}
+
+// 错误响应的说明：OpenAI 格式为 {"error": {"message": ...}}，其他格式截取原文
+fn error_message(status: u16, body: &str) -> String {
+    let parsed: Option<Value> = serde_json::from_str(body).ok();
+    let message = parsed
+        .as_ref()
+        .and_then(|value| value.pointer("/error/message").or_else(|| value.get("error")))
+        .and_then(Value::as_str)
+        .map(str::to_string)
+        .unwrap_or_else(|| body.trim().chars().take(ERROR_TEXT_LIMIT).collect());
+    if message.is_empty() {
+        format!("HTTP {}", status)
+    } else {
+        format!("HTTP {}: {}", status, message)
+    }
+}
+
+// 处理一行 SSE，返回是否已经收到 [DONE]；流中途出错时服务会发送 {"error": ...}
+fn handle_sse_line(line: &str, on_event: &Channel<ChatEvent>) -> Result<bool, String> {
+    let Some(data) = line.strip_prefix("data:").map(str::trim) else {
+        return Ok(false);
+    };
+    if data == "[DONE]" {
+        return Ok(true);
+    }
+    let chunk: Value = serde_json::from_str(data).map_err(|e| format!("无法解析流式回复: {}", e))?;
+    if let Some(error) = chunk.get("error") {
+        let message = error.get("message").and_then(Value::as_str).unwrap_or("未知错误");
+        return Err(message.to_string());
+    }
+    on_event.send(ChatEvent::Chunk(chunk)).map_err(|e| e.to_string())?;
+    Ok(false)
+}
+
+// 发送请求；body.stream 为 true 时逐块传给前端并返回 null，否则返回完整的回复
+pub async fn chat_completion(
+    client: &reqwest::Client,
+    target: RequestTarget,
+    body: Value,
+    on_event: &Channel<ChatEvent>,
+) -> Result<Value, String> {
+    let stream = body.get("stream").and_then(Value::as_bool).unwrap_or(false);
+    let content = serde_json::to_vec(&body).map_err(|e| e.to_string())?;
+    let response = target
+        .request(client, reqwest::Method::POST, &target.endpoint("chat/completions"))
+        .header(reqwest::header::CONTENT_TYPE, "application/json")
+        .body(content)
+        .send()
+        .await
+        .map_err(describe_error)?;
+    let status = response.status();
+    if !status.is_success() {
+        let text = response.bytes().await.map(|b| String::from_utf8_lossy(&b).into_owned()).unwrap_or_default();
+        return Err(error_message(status.as_u16(), &text));
+    }
+    if !stream {
+        let bytes = response.bytes().await.map_err(describe_error)?;
+        return serde_json::from_slice(&bytes).map_err(|e| format!("无法解析回复: {}", e));
+    }
+
+    // 按行拆分 SSE，一行可能跨越多个数据块
+    let mut buffer: Vec<u8> = Vec::new();
+    let mut chunks = response.bytes_stream();
+    let mut finished = false;
+    while !finished {
+        let Some(chunk) = chunks.next().await else {
+            // 连接关闭时最后一行可能没有换行
+            handle_sse_line(String::from_utf8_lossy(&buffer).trim(), on_event)?;
+            break;
+        };
+        buffer.extend_from_slice(&chunk.map_err(describe_error)?);
+        while let Some(end) = buffer.iter().position(|&b| b == b'\n') {
+            let line: Vec<u8> = buffer.drain(..=end).collect();
+            if handle_sse_line(String::from_utf8_lossy(&line).trim(), on_event)? {
+                finished = true;
+                break;
+            }
+        }
+    }
+    on_event.send(ChatEvent::Done).map_err(|e| e.to_string())?;
+    Ok(Value::Null)
+}
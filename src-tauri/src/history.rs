@@ -0,0 +1,236 @@
+// 对话历史持久化
+// 目录结构：
+//   sessions/index.json      会话列表和当前会话
+//   sessions/<id>.json       每个会话的消息
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::path::PathBuf;
+use std::time::{SystemTime, UNIX_EPOCH};
+
+// 单条消息，content 为显示的文本（助手消息为中文），其余字段只有助手消息有
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ChatMessage {
+    pub role: String,
+    pub content: String,
+    pub timestamp: u64, // 毫秒时间戳
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub provider: Option<String>, // 生成该回复的 LLM 服务名称
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub raw: Option<String>, // LLM 的原始回复
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub mood: Option<String>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub japanese: Option<String>,
+}
+
+// 会话元信息
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SessionMeta {
+    pub id: String,
+    pub name: String,
+    pub created_at: u64,
+    pub updated_at: u64,
+    pub message_count: usize,
+    #[serde(default)]
+    pub summary: String, // 已移出上下文的早期对话摘要
+}
+
+// 会话列表（index.json 的内容）
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct SessionList {
+    pub active_session_id: Option<String>,
+    pub sessions: Vec<SessionMeta>,
+}
+
+// 分页读取的消息
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct MessagePage {
+    pub messages: Vec<ChatMessage>,
+    pub start: usize, // 本页第一条消息在会话中的下标
+    pub total: usize, // 会话中的消息总数
+}
+
+// 自动命名时截取的首条消息长度
+const AUTO_NAME_LENGTH: usize = 16;
+
+pub fn now_millis() -> u64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0)
+}
+
+pub struct HistoryStore {
+    dir: PathBuf,
+    index: SessionList,
+}
+
+impl HistoryStore {
+    // 从目录加载会话列表，文件不存在或损坏时使用空列表
+    pub fn load(dir: PathBuf) -> Self {
+        fs::create_dir_all(&dir).ok();
+        let index = fs::read_to_string(dir.join("index.json"))
+            .ok()
+            .and_then(|content| serde_json::from_str(&content).ok())
+            .unwrap_or_default();
+        Self { dir, index }
+    }
+
+    fn save_index(&self) -> Result<(), String> {
+        let content = serde_json::to_string_pretty(&self.index).map_err(|e| e.to_string())?;
+        fs::write(self.dir.join("index.json"), content).map_err(|e| e.to_string())
+    }
+
+    fn session_path(&self, id: &str) -> PathBuf {
+        self.dir.join(format!("{}.json", id))
+    }
+
+    // 只允许访问列表中已有的会话，避免任意路径读写
+    fn find_mut(&mut self, id: &str) -> Result<&mut SessionMeta, String> {
+        self.index
+            .sessions
+            .iter_mut()
+            .find(|s| s.id == id)
+            .ok_or_else(|| format!("会话不存在: {}", id))
+    }
+
+    fn ensure_exists(&self, id: &str) -> Result<(), String> {
+        if self.index.sessions.iter().any(|s| s.id == id) {
+            Ok(())
+        } else {
+            Err(format!("会话不存在: {}", id))
+        }
+    }
+
+    fn read_messages(&self, id: &str) -> Result<Vec<ChatMessage>, String> {
+        let path = self.session_path(id);
+        if !path.exists() {
+            return Ok(Vec::new());
+        }
+        let content = fs::read_to_string(path).map_err(|e| e.to_string())?;
+        serde_json::from_str(&content).map_err(|e| e.to_string())
+    }
+
+    fn write_messages(&self, id: &str, messages: &[ChatMessage]) -> Result<(), String> {
+        let content = serde_json::to_string(messages).map_err(|e| e.to_string())?;
+        fs::write(self.session_path(id), content).map_err(|e| e.to_string())
+    }
+
+    // 会话列表，最近更新的在前
+    pub fn list(&self) -> SessionList {
+        let mut list = self.index.clone();
+        list.sessions.sort_by(|a, b| b.updated_at.cmp(&a.updated_at));
+        list
+    }
+
+    pub fn create(&mut self, name: String) -> Result<SessionMeta, String> {
+        let now = now_millis();
+        // 同一毫秒内连续创建时避免 id 冲突
+        let mut id = now.to_string();
+        let mut suffix = 1;
+        while self.index.sessions.iter().any(|s| s.id == id) {
+            id = format!("{}-{}", now, suffix);
+            suffix += 1;
+        }
+
+        let meta = SessionMeta {
+            id: id.clone(),
+            name,
+            created_at: now,
+            updated_at: now,
+            message_count: 0,
+            summary: String::new(),
+        };
+        self.write_messages(&id, &[])?;
+        self.index.sessions.push(meta.clone());
+        self.index.active_session_id = Some(id);
+        self.save_index()?;
+        Ok(meta)
+    }
+
+    // 导入的会话：新建会话并写入全部消息，切换为当前会话
+    pub fn import(&mut self, name: String, messages: Vec<ChatMessage>) -> Result<SessionMeta, String> {
+        let meta = self.create(name)?;
+        if messages.is_empty() {
+            return Ok(meta);
+        }
+        self.write_messages(&meta.id, &messages)?;
+
+        let session = self.find_mut(&meta.id)?;
+        session.message_count = messages.len();
+        session.created_at = messages[0].timestamp;
+        session.updated_at = now_millis();
+        let session = session.clone();
+        self.save_index()?;
+        Ok(session)
+    }
+
+    pub fn switch(&mut self, id: &str) -> Result<(), String> {
+        self.ensure_exists(id)?;
+        self.index.active_session_id = Some(id.to_string());
+        self.save_index()
+    }
+
+    pub fn rename(&mut self, id: &str, name: String) -> Result<(), String> {
+        self.find_mut(id)?.name = name;
+        self.save_index()
+    }
+
+    pub fn set_summary(&mut self, id: &str, summary: String) -> Result<(), String> {
+        self.find_mut(id)?.summary = summary;
+        self.save_index()
+    }
+
+    pub fn delete(&mut self, id: &str) -> Result<(), String> {
+        self.ensure_exists(id)?;
+        self.index.sessions.retain(|s| s.id != id);
+        if self.index.active_session_id.as_deref() == Some(id) {
+            self.index.active_session_id = None;
+        }
+        fs::remove_file(self.session_path(id)).ok();
+        self.save_index()
+    }
+
+    // 追加消息，未命名的会话用第一条用户消息自动命名
+    pub fn append(&mut self, id: &str, new_messages: Vec<ChatMessage>) -> Result<SessionMeta, String> {
+        self.ensure_exists(id)?;
+        let mut messages = self.read_messages(id)?;
+        messages.extend(new_messages);
+        self.write_messages(id, &messages)?;
+
+        let auto_name = messages
+            .iter()
+            .find(|m| m.role == "user")
+            .map(|m| m.content.chars().take(AUTO_NAME_LENGTH).collect::<String>());
+
+        let meta = self.find_mut(id)?;
+        meta.message_count = messages.len();
+        meta.updated_at = now_millis();
+        if meta.name.is_empty() {
+            if let Some(name) = auto_name {
+                meta.name = name;
+            }
+        }
+        let meta = meta.clone();
+        self.save_index()?;
+        Ok(meta)
+    }
+
+    // 分页读取：返回 [end - limit, end) 范围内的消息，end 为空时从末尾开始
+    pub fn page(&self, id: &str, end: Option<usize>, limit: usize) -> Result<MessagePage, String> {
+        self.ensure_exists(id)?;
+        let messages = self.read_messages(id)?;
+        let total = messages.len();
+        let end = end.unwrap_or(total).min(total);
+        let start = end.saturating_sub(limit);
+        Ok(MessagePage {
+            messages: messages[start..end].to_vec(),
+            start,
+            total,
+        })
+    }
+}
@@ -0,0 +1,88 @@
+// 全局快捷键：显示/隐藏角色、打开对话框、重复最后一句、按住说话
+// 快捷键保存在设置中，设置变化后重新注册；注册失败（格式错误或被其他程序占用）时记录下来给设置窗口显示
+use serde::Serialize;
+use tauri_plugin_global_shortcut::{GlobalShortcutExt, Shortcut};
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub enum HotkeyAction {
+    TogglePet,  // 显示/隐藏角色
+    OpenChat,   // 打开对话框并聚焦输入框
+    RepeatLast, // 重新朗读最后一句日语，没有语音时复制最后一条回复
+    PushToTalk, // 按下开始录音，松开后识别并发送
+}
+
+impl HotkeyAction {
+    // 对应的设置字段，设置窗口据此在输入框旁显示错误
+    pub fn field(&self) -> &'static str {
+        match self {
+            HotkeyAction::TogglePet => "hotkeyTogglePet",
+            HotkeyAction::OpenChat => "hotkeyOpenChat",
+            HotkeyAction::RepeatLast => "hotkeyRepeatLast",
+            HotkeyAction::PushToTalk => "sttHotkey",
+        }
+    }
+}
+
+// 注册失败的快捷键
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct HotkeyError {
+    pub field: String,
+    pub shortcut: String,
+    pub message: String,
+}
+
+#[derive(Default)]
+pub struct HotkeyRegistry {
+    bindings: Vec<(Shortcut, HotkeyAction)>,
+    errors: Vec<HotkeyError>,
+}
+
+impl HotkeyRegistry {
+    // 注销之前的快捷键并注册新的，空字符串表示不使用
+    pub fn apply<R: tauri::Runtime>(&mut self, app: &tauri::AppHandle<R>, hotkeys: &[(HotkeyAction, &str)]) {
+        let manager = app.global_shortcut();
+        for (shortcut, _) in self.bindings.drain(..) {
+            let _ = manager.unregister(shortcut);
+        }
+        self.errors.clear();
+
+        for &(action, text) in hotkeys {
+            let text = text.trim();
+            if text.is_empty() {
+                continue;
+            }
+            let result = text
+                .parse::<Shortcut>()
+                .map_err(|e| format!("无法识别的快捷键: {}", e))
+                .and_then(|shortcut| {
+                    if self.bindings.iter().any(|(bound, _)| *bound == shortcut) {
+                        return Err("与其他快捷键重复".to_string());
+                    }
+                    manager
+                        .register(shortcut)
+                        .map(|_| shortcut)
+                        .map_err(|e| format!("注册失败，可能已被其他程序占用: {}", e))
+                });
+            match result {
+                Ok(shortcut) => self.bindings.push((shortcut, action)),
+                Err(message) => self.errors.push(HotkeyError {
+                    field: action.field().to_string(),
+                    shortcut: text.to_string(),
+                    message,
+                }),
+            }
+        }
+    }
+
+    pub fn action_for(&self, shortcut: &Shortcut) -> Option<HotkeyAction> {
+        self.bindings
+            .iter()
+            .find(|(bound, _)| bound == shortcut)
+            .map(|(_, action)| *action)
+    }
+
+    pub fn errors(&self) -> Vec<HotkeyError> {
+        self.errors.clone()
+    }
+}
@@ -0,0 +1,122 @@
+// 转发前端的 HTTP 请求（模型列表、语音识别）：按服务填入 Key 和自定义请求头并发送，响应按块流式传回前端
+use futures_util::StreamExt;
+use serde::{Deserialize, Serialize};
+use std::time::Duration;
+use tauri::ipc::Channel;
+
+// 前端 fetch 的请求（请求体另外以原始字节传入）：requestId 用于取消，url 必须在服务地址之下
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ForwardRequest {
+    pub request_id: String,
+    pub url: String,
+    pub method: String,
+    pub headers: Vec<(String, String)>,
+}
+
+// 请求的服务：服务地址、Key 和服务配置中的自定义请求头（转发和 LLM 对话共用）
+#[derive(Clone)]
+pub struct RequestTarget {
+    pub base_url: String,
+    pub api_key: Option<String>,
+    pub headers: Vec<(String, String)>,
+}
+
+impl RequestTarget {
+    // 服务地址下的接口地址，如 chat/completions
+    pub fn endpoint(&self, path: &str) -> String {
+        format!("{}/{}", self.base_url.trim().trim_end_matches('/'), path)
+    }
+
+    // 创建发往该服务的请求，填入自定义请求头和 Key
+    pub fn request(&self, client: &reqwest::Client, method: reqwest::Method, url: &str) -> reqwest::RequestBuilder {
+        let mut builder = client.request(method, url);
+        for (name, value) in &self.headers {
+            builder = builder.header(name.as_str(), value.as_str());
+        }
+        if let Some(api_key) = &self.api_key {
+            builder = builder.bearer_auth(api_key);
+        }
+        builder
+    }
+}
+
+// 传回前端的响应：先是状态码和响应头，然后是响应体的每一块，最后是 done
+#[derive(Clone, Serialize)]
+#[serde(tag = "event", content = "data", rename_all = "camelCase")]
+pub enum ForwardEvent {
+    Response { status: u16, headers: Vec<(String, String)> },
+    Chunk(Vec<u8>),
+    Done,
+}
+
+// 由 reqwest 重新计算的请求头，以及由服务配置填入的 Authorization（前端不持有 Key）
+const SKIPPED_HEADERS: [&str; 3] = ["host", "content-length", "authorization"];
+
+// 发送请求用的客户端（转发和 LLM 对话共用）：代理为空时使用系统环境变量中的代理
+// 超时用于建立连接和等待下一段数据，流式回复总时长不受限制
+pub fn build_client(proxy: &str, timeout: Duration) -> Result<reqwest::Client, String> {
+    let mut builder = reqwest::Client::builder().connect_timeout(timeout).read_timeout(timeout);
+    if !proxy.trim().is_empty() {
+        let proxy = reqwest::Proxy::all(proxy.trim()).map_err(|_| format!("代理地址无效: {}", proxy.trim()))?;
+        builder = builder.proxy(proxy);
+    }
+    builder.build().map_err(|e| e.to_string())
+}
+
+// url 是否在服务地址 base 之下：协议、主机、端口相同，路径在 base 的路径之内（.. 已由解析规范化）
+pub fn is_within_base(url: &str, base: &str) -> bool {
+    let (Ok(url), Ok(base)) = (reqwest::Url::parse(url), reqwest::Url::parse(base.trim())) else {
+        return false;
+    };
+    let base_path = base.path().trim_end_matches('/');
+    url.scheme() == base.scheme()
+        && url.host_str() == base.host_str()
+        && url.port_or_known_default() == base.port_or_known_default()
+        && (url.path() == base_path || url.path().starts_with(&format!("{}/", base_path)))
+}
+
+fn send_event(on_event: &Channel<ForwardEvent>, event: ForwardEvent) -> Result<(), String> {
+    on_event.send(event).map_err(|e| e.to_string())
+}
+
+// 发送请求并把响应传回前端；请求地址不在服务地址之下时拒绝，webview 中的代码不能把请求发到别处
+pub async fn forward(
+    client: &reqwest::Client,
+    target: RequestTarget,
+    request: ForwardRequest,
+    body: Vec<u8>,
+    on_event: &Channel<ForwardEvent>,
+) -> Result<(), String> {
+    if !is_within_base(&request.url, &target.base_url) {
+        return Err("请求地址不在已保存的服务地址下，请先保存设置".to_string());
+    }
+    let method = reqwest::Method::from_bytes(request.method.as_bytes()).map_err(|e| e.to_string())?;
+    let mut builder = target.request(client, method, &request.url);
+    for (name, value) in &request.headers {
+        let name = name.to_ascii_lowercase();
+        // 服务配置中的自定义请求头优先
+        if SKIPPED_HEADERS.contains(&name.as_str()) || target.headers.iter().any(|(custom, _)| custom.eq_ignore_ascii_case(&name)) {
+            continue;
+        }
+        builder = builder.header(name, value);
+    }
+    if !body.is_empty() {
+        builder = builder.body(body);
+    }
+
+    let response = builder.send().await.map_err(|e| e.to_string())?;
+    let headers = response
+        .headers()
+        .iter()
+        .filter_map(|(name, value)| Some((name.to_string(), value.to_str().ok()?.to_string())))
+        .collect();
+    send_event(on_event, ForwardEvent::Response { status: response.status().as_u16(), headers })?;
+
+    let mut stream = response.bytes_stream();
+    while let Some(chunk) = stream.next().await {
+        let chunk = chunk.map_err(|e| e.to_string())?;
+        send_event(on_event, ForwardEvent::Chunk(chunk.to_vec()))?;
+    }
+    send_event(on_event, ForwardEvent::Done)
+}
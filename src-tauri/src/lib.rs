@@ -1,32 +1,135 @@
 use tauri::{
-    menu::{Menu, MenuItem},
+    menu::{CheckMenuItem, Menu, MenuItem, Submenu},
     tray::{MouseButton, MouseButtonState, TrayIconBuilder, TrayIconEvent},
-    Manager, WebviewUrl, WebviewWindowBuilder,
+    Emitter, Manager, WebviewUrl, WebviewWindowBuilder,
 };
-use serde::{Deserialize, Serialize};
+use serde::{de::DeserializeOwned, Deserialize, Serialize};
+use std::collections::{BTreeMap, HashMap};
+use std::sync::atomic::{AtomicBool, Ordering};
 use std::sync::Mutex;
+use std::time::Duration;
+use tauri_plugin_dialog::DialogExt;
+use tauri_plugin_global_shortcut::ShortcutState;
+use tauri_plugin_notification::NotificationExt;
 use std::fs;
 use std::path::PathBuf;
 
+mod active_window;
+mod characters;
+mod chat_proxy;
+mod history;
+mod hotkeys;
+mod http_forward;
+mod memory;
+mod reminders;
+mod secrets;
+mod settings_schema;
+mod window_position;
+use active_window::ActiveWindowTracker;
+use characters::{CharacterManifest, CharacterStore};
+use chat_proxy::ChatEvent;
+use futures_util::future::{AbortHandle, Abortable};
+use history::{ChatMessage, HistoryStore, MessagePage, SessionList, SessionMeta};
+use hotkeys::{HotkeyAction, HotkeyError, HotkeyRegistry};
+use http_forward::{ForwardEvent, ForwardRequest, RequestTarget};
+use memory::{MemoryFact, MemoryStore};
+use reminders::{Reminder, ReminderStore};
+use secrets::{SecretStorage, SecretStore};
+use serde_json::{Map, Value};
+use settings_schema::SettingsError;
+use window_position::{WindowPosition, WindowPositionStore};
+
 #[cfg(windows)]
 use windows::Win32::UI::WindowsAndMessaging::GetCursorPos;
 #[cfg(windows)]
 use windows::Win32::Foundation::POINT;
 
-// 设置结构体
+// 托盘图标 id 和 LLM 服务菜单项的 id 前缀
+const TRAY_ID: &str = "main";
+const PROFILE_MENU_PREFIX: &str = "profile:";
+
+// LLM 服务配置
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
+pub struct LlmProfile {
+    pub id: String,
+    pub name: String,
+    pub base_url: String,
+    pub api_key: String,
+    #[serde(default)]
+    pub local: bool, // 本地服务，不需要 API Key
+    pub model: String,
+    pub temperature: Option<f64>, // 为空时使用服务端默认值
+    pub max_tokens: Option<u32>,
+    #[serde(default)]
+    pub headers: BTreeMap<String, String>, // 自定义请求头（如 OpenRouter 的 HTTP-Referer）
+}
+
+impl Default for LlmProfile {
+    fn default() -> Self {
+        Self {
+            id: "default".to_string(),
+            name: "默认".to_string(),
+            base_url: "https://api.openai.com/v1".to_string(),
+            api_key: String::new(),
+            local: false,
+            model: "gpt-4o-mini".to_string(),
+            temperature: None,
+            max_tokens: None,
+            headers: BTreeMap::new(),
+        }
+    }
+}
+
+// 设置结构体
+// 缺失的字段使用 Default 中的值，新增字段后旧的设置文件仍能正常读取
+// 取值范围在 src/settingsSchema.json 中定义，结构有不兼容的变化时增加其中的 version 并在 migrate_settings 中迁移
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
 pub struct Settings {
+    pub version: u32,               // 设置文件的版本
     pub screen_height_ratio: f64,
     pub padding: i32,
     pub fps_limit: i32,
     pub drag_w_ratio: f64,
     pub drag_h_ratio: f64,
-    pub llm_base_url: String,
-    pub llm_api_key: String,
-    pub llm_model: String,
+    pub pixel_hit_test: bool,       // 按角色轮廓判定点击区域
+    pub touch_llm_reactions: bool,  // 触摸反应由 LLM 生成
+    pub idle_proactive_enabled: bool, // 闲置时主动搭话
+    pub idle_proactive_minutes: u32,
+    pub quiet_hours_start: u32,     // 安静时段（小时）
+    pub quiet_hours_end: u32,
+    pub mood_reset_minutes: u32,    // 心情恢复默认的时间
+    pub reminder_notification: bool, // 提醒时同时发送系统通知
+    pub llm_profiles: Vec<LlmProfile>,
+    pub active_llm_profile_id: String,
+    pub llm_stream: bool,           // 流式输出
+    pub reply_mode: String,         // 回复格式模式：pipe / json
+    pub bubble_language: String,    // 对话框显示的语言：chinese / japanese / both
+    pub action_display: String,     // 动作描写：show / hide / animate
+    pub memory_enabled: bool,       // 长期记忆
+    pub llm_tools_enabled: bool,    // 允许 LLM 调用工具
+    pub llm_timeout_seconds: u64,   // 连接和等待数据的超时
+    pub http_proxy: String,         // LLM 和语音识别请求的代理，为空时使用系统代理
+    pub tts_enabled: bool,          // 日语语音播放
+    pub tts_backend: String,        // http / webspeech
+    pub tts_endpoint: String,
+    pub tts_voice: String,
+    pub tts_volume: f64,
+    pub stt_enabled: bool,          // 语音输入
+    pub stt_base_url: String,
+    pub stt_api_key: String,
+    pub stt_model: String,
+    pub stt_language: String,
+    pub stt_hotkey: String,
+    pub stt_mouse_hold: bool,
+    pub hotkey_toggle_pet: String,  // 全局快捷键，为空时不使用
+    pub hotkey_open_chat: String,
+    pub hotkey_repeat_last: String,
+    pub user_name: String,          // 对老师的称呼（提示词模板的 {user_name}）
     pub character_setting: String,  // 角色设定
     pub reply_format: String,       // 回复格式
+    pub character_id: String,       // 当前角色包
 }
 
 // 注意：这里的默认值应与 src/settingsStore.ts 中的 DEFAULT_SETTINGS 保持一致
@@ -35,28 +138,96 @@ pub struct Settings {
 impl Default for Settings {
     fn default() -> Self {
         Self {
+            version: settings_schema::schema().version,
             screen_height_ratio: 0.4,
             padding: 20,
             fps_limit: 30,
             drag_w_ratio: 0.4,
             drag_h_ratio: 0.9,
-            llm_base_url: "https://api.openai.com/v1".to_string(),
-            llm_api_key: String::new(),
-            llm_model: "gpt-4o-mini".to_string(),
+            pixel_hit_test: true,
+            touch_llm_reactions: false,
+            idle_proactive_enabled: true,
+            idle_proactive_minutes: 30,
+            quiet_hours_start: 23,
+            quiet_hours_end: 8,
+            mood_reset_minutes: 5,
+            reminder_notification: true,
+            llm_profiles: vec![LlmProfile::default()],
+            active_llm_profile_id: "default".to_string(),
+            llm_stream: true,
+            reply_mode: "pipe".to_string(),
+            bubble_language: "both".to_string(),
+            action_display: "show".to_string(),
+            memory_enabled: true,
+            llm_tools_enabled: true,
+            llm_timeout_seconds: 120,
+            http_proxy: String::new(),
+            tts_enabled: false,
+            tts_backend: "http".to_string(),
+            tts_endpoint: "http://127.0.0.1:9880/?text={text}&text_language=ja".to_string(),
+            tts_voice: String::new(),
+            tts_volume: 0.8,
+            stt_enabled: false,
+            stt_base_url: String::new(),
+            stt_api_key: String::new(),
+            stt_model: "whisper-1".to_string(),
+            stt_language: "zh".to_string(),
+            stt_hotkey: "F2".to_string(),
+            stt_mouse_hold: true,
+            hotkey_toggle_pet: "Alt+Shift+P".to_string(),
+            hotkey_open_chat: "Alt+Shift+C".to_string(),
+            hotkey_repeat_last: "Alt+Shift+R".to_string(),
+            user_name: "老师".to_string(),
             // 以下两个字段的完整默认值在 settingsStore.ts 中定义
             // 这里使用空字符串，前端会检测并使用 TypeScript 的默认值
             character_setting: String::new(),
             reply_format: String::new(),
+            character_id: characters::BUILTIN_CHARACTER_ID.to_string(),
         }
     }
 }
 
+impl Settings {
+    // 按代理和超时设置创建发送请求的客户端
+    fn http_client(&self) -> Result<reqwest::Client, String> {
+        http_forward::build_client(&self.http_proxy, Duration::from_secs(self.llm_timeout_seconds))
+    }
+
+    // 要注册的全局快捷键，按住说话只在启用语音输入时注册
+    fn hotkeys(&self) -> [(HotkeyAction, &str); 4] {
+        [
+            (HotkeyAction::TogglePet, self.hotkey_toggle_pet.as_str()),
+            (HotkeyAction::OpenChat, self.hotkey_open_chat.as_str()),
+            (HotkeyAction::RepeatLast, self.hotkey_repeat_last.as_str()),
+            (HotkeyAction::PushToTalk, if self.stt_enabled { self.stt_hotkey.as_str() } else { "" }),
+        ]
+    }
+}
+
 // 全局设置状态
 struct AppState {
     settings: Mutex<Settings>,
     settings_path: PathBuf,
+    settings_notice: Option<String>, // 读取设置文件时的问题（已备份、已恢复默认的字段）
+    history: Mutex<HistoryStore>,
+    memory: Mutex<MemoryStore>,
+    characters: CharacterStore,
+    reminders: Mutex<ReminderStore>,
+    reminder_scheduler_started: AtomicBool,
+    hotkeys: Mutex<HotkeyRegistry>,
+    window_positions: Mutex<WindowPositionStore>,
+    secrets: Mutex<SecretStore>,
+    http_client: Mutex<reqwest::Client>,
+    requests: Mutex<HashMap<String, AbortHandle>>, // 进行中的对话和转发请求，取消时中止
+    active_window: ActiveWindowTracker,
 }
 
+// 修改后需要重新创建请求客户端的设置
+const HTTP_CLIENT_FIELDS: [&str; 2] = ["httpProxy", "llmTimeoutSeconds"];
+
+// 提醒的检查间隔
+const REMINDER_CHECK_INTERVAL: Duration = Duration::from_secs(5);
+
 // 获取设置文件路径
 fn get_settings_path(app: &tauri::AppHandle) -> PathBuf {
     let app_dir = app.path().app_data_dir().expect("Failed to get app data dir");
@@ -64,16 +235,157 @@ fn get_settings_path(app: &tauri::AppHandle) -> PathBuf {
     app_dir.join("settings.json")
 }
 
-// 从文件加载设置
-fn load_settings_from_file(path: &PathBuf) -> Settings {
-    if path.exists() {
-        if let Ok(content) = fs::read_to_string(path) {
-            if let Ok(settings) = serde_json::from_str(&content) {
-                return settings;
+// 版本 1（没有 version 字段）只有一组 llmBaseUrl / llmApiKey / llmModel，迁移为一个服务配置
+fn migrate_legacy_llm(settings: &mut Map<String, Value>) {
+    let base_url = settings.remove("llmBaseUrl");
+    let api_key = settings.remove("llmApiKey");
+    let model = settings.remove("llmModel");
+    if base_url.is_none() && api_key.is_none() && model.is_none() {
+        return;
+    }
+    let text = |value: Option<Value>| value.and_then(|v| v.as_str().map(str::to_string));
+    let defaults = LlmProfile::default();
+    let profile = LlmProfile {
+        base_url: text(base_url).unwrap_or_else(|| defaults.base_url.clone()),
+        api_key: text(api_key).unwrap_or_default(),
+        model: text(model).unwrap_or_else(|| defaults.model.clone()),
+        ..defaults
+    };
+    settings.insert("activeLlmProfileId".to_string(), Value::from(profile.id.clone()));
+    settings.insert("llmProfiles".to_string(), serde_json::json!([profile]));
+}
+
+// 按版本依次迁移设置文件的内容，返回迁移前的版本
+fn migrate_settings(settings: &mut Map<String, Value>) -> u64 {
+    let from_version = settings.get("version").and_then(Value::as_u64).unwrap_or(1);
+    if from_version < 2 {
+        migrate_legacy_llm(settings);
+    }
+    settings.insert("version".to_string(), Value::from(settings_schema::schema().version));
+    from_version
+}
+
+// 把 file 中的字段合并到 defaults 上，读取为 T 时类型不对的字段保留默认值并记录在 rejected 中
+fn merge_fields<T: DeserializeOwned>(
+    defaults: &Map<String, Value>,
+    file: Map<String, Value>,
+    prefix: &str,
+    rejected: &mut Vec<String>,
+) -> Map<String, Value> {
+    // 整体能读取时不需要逐个尝试
+    let mut merged = defaults.clone();
+    merged.extend(file.clone());
+    if serde_json::from_value::<T>(Value::Object(merged.clone())).is_ok() {
+        return merged;
+    }
+
+    merged = defaults.clone();
+    for (key, value) in file {
+        let previous = merged.insert(key.clone(), value);
+        if serde_json::from_value::<T>(Value::Object(merged.clone())).is_err() {
+            match previous {
+                Some(previous) => merged.insert(key.clone(), previous),
+                None => merged.remove(&key),
+            };
+            rejected.push(format!("{}{}", prefix, key));
+        }
+    }
+    merged
+}
+
+// 逐个字段读取设置：类型不对或超出范围的字段恢复默认值，不影响其他字段
+// 返回设置和被恢复默认的字段
+fn settings_from_map(mut file: Map<String, Value>) -> (Settings, Vec<String>) {
+    let (Ok(Value::Object(defaults)), Ok(Value::Object(profile_defaults))) =
+        (serde_json::to_value(Settings::default()), serde_json::to_value(LlmProfile::default()))
+    else {
+        return (Settings::default(), Vec::new());
+    };
+    let mut rejected = Vec::new();
+
+    // 服务配置中的字段单独处理，一个字段有问题时不丢掉整个配置（包括 API Key）
+    if let Some(Value::Array(profiles)) = file.get_mut("llmProfiles") {
+        for (index, profile) in profiles.iter_mut().enumerate() {
+            if let Value::Object(fields) = profile.take() {
+                let prefix = format!("llmProfiles.{}.", index);
+                *profile = Value::Object(merge_fields::<LlmProfile>(&profile_defaults, fields, &prefix, &mut rejected));
+            }
+        }
+    }
+    let mut merged = merge_fields::<Settings>(&defaults, file, "", &mut rejected);
+
+    // 超出范围的值
+    for error in settings_schema::validate(&Value::Object(merged.clone())) {
+        match error.field.split('.').collect::<Vec<_>>().as_slice() {
+            [field] => {
+                if let Some(default) = defaults.get(*field) {
+                    merged.insert(field.to_string(), default.clone());
+                }
+            }
+            ["llmProfiles", index, field] => {
+                let default = profile_defaults.get(*field).cloned().unwrap_or(Value::Null);
+                let profile = index
+                    .parse::<usize>()
+                    .ok()
+                    .and_then(|index| merged.get_mut("llmProfiles")?.get_mut(index)?.as_object_mut());
+                if let Some(profile) = profile {
+                    profile.insert(field.to_string(), default);
+                }
             }
+            _ => {}
         }
+        rejected.push(error.field);
+    }
+
+    let settings = serde_json::from_value(Value::Object(merged)).unwrap_or_default();
+    (settings, rejected)
+}
+
+// 把设置文件复制为 settings.backup-<时间>.json，返回备份的路径
+fn backup_settings_file(path: &PathBuf) -> Result<PathBuf, String> {
+    let backup = path.with_file_name(format!("settings.backup-{}.json", history::now_millis()));
+    fs::copy(path, &backup).map_err(|e| e.to_string())?;
+    Ok(backup)
+}
+
+fn describe_backup(backup: Result<PathBuf, String>) -> String {
+    match backup {
+        Ok(path) => format!("原文件已备份为 {}", path.display()),
+        Err(e) => format!("备份原文件失败: {}", e),
     }
-    Settings::default()
+}
+
+// 从文件加载设置，返回设置和需要告诉老师的问题
+// 文件无法解析或有无效的字段时先备份原文件，不会悄悄丢掉 API Key 和人设
+fn load_settings_from_file(path: &PathBuf) -> (Settings, Option<String>) {
+    let Ok(content) = fs::read_to_string(path) else {
+        return (Settings::default(), None);
+    };
+    let Ok(Value::Object(mut file)) = serde_json::from_str::<Value>(&content) else {
+        let notice = format!("设置文件无法解析，当前使用默认设置。{}", describe_backup(backup_settings_file(path)));
+        eprintln!("{}", notice);
+        return (Settings::default(), Some(notice));
+    };
+
+    let from_version = migrate_settings(&mut file);
+    let (settings, rejected) = settings_from_map(file);
+    let mut notice = None;
+    if !rejected.is_empty() {
+        let message = format!(
+            "设置文件中以下字段的值无效，已恢复默认：{}。{}",
+            rejected.join("、"),
+            describe_backup(backup_settings_file(path))
+        );
+        eprintln!("{}", message);
+        notice = Some(message);
+    }
+    // 迁移或修正后写回，下次读取时不需要再处理
+    if !rejected.is_empty() || from_version != u64::from(settings.version) {
+        if let Err(e) = save_settings_to_file(path, &settings) {
+            eprintln!("Failed to save migrated settings: {}", e);
+        }
+    }
+    (settings, notice)
 }
 
 // 保存设置到文件
@@ -82,18 +394,739 @@ fn save_settings_to_file(path: &PathBuf, settings: &Settings) -> Result<(), Stri
     fs::write(path, content).map_err(|e| e.to_string())
 }
 
-// 获取设置命令
+// 设置中的 API Key 字段和它们在密钥环中的 id
+fn secret_fields(settings: &mut Settings) -> Vec<(String, &mut String)> {
+    let mut fields: Vec<(String, &mut String)> = settings
+        .llm_profiles
+        .iter_mut()
+        .map(|profile| (secrets::profile_secret_id(&profile.id), &mut profile.api_key))
+        .collect();
+    fields.push((secrets::STT_SECRET_ID.to_string(), &mut settings.stt_api_key));
+    fields
+}
+
+// 把设置中新填写的 API Key 移到密钥环，设置中只留下占位符；清空的 Key 和已删除的服务的 Key 从密钥环删除
+fn store_secrets(store: &mut SecretStore, settings: &mut Settings, old_profiles: &[LlmProfile]) -> Result<(), String> {
+    let placeholder = &settings_schema::schema().secret_placeholder;
+    for old in old_profiles {
+        if !settings.llm_profiles.iter().any(|profile| profile.id == old.id) {
+            store.delete(&secrets::profile_secret_id(&old.id))?;
+        }
+    }
+    for (id, value) in secret_fields(settings) {
+        if value == placeholder {
+            continue;
+        }
+        if value.trim().is_empty() {
+            store.delete(&id)?;
+            value.clear();
+        } else {
+            store.set(&id, value.trim())?;
+            *value = placeholder.clone();
+        }
+    }
+    Ok(())
+}
+
+// 设置中是否有已保存到密钥环的 Key（只有占位符）
+fn has_stored_secrets(settings: &mut Settings) -> bool {
+    let placeholder = &settings_schema::schema().secret_placeholder;
+    secret_fields(settings).into_iter().any(|(_, value)| value == placeholder)
+}
+
+// 启动时整理 API Key：旧版本明文保存的 Key 移到密钥环，密钥环中确实没有的 Key 清空
+// 暂时读不到的 Key 保留占位符，不能当作没有（否则下次保存时会把密钥环中的 Key 删掉）
+// 返回需要告诉老师的问题，设置有变化时写回文件
+fn secure_loaded_settings(path: &PathBuf, store: &mut SecretStore, settings: &mut Settings) -> Option<String> {
+    let placeholder = settings_schema::schema().secret_placeholder.clone();
+    let mut missing = false;
+    let mut unreadable = None;
+    let mut changed = false;
+    for (id, value) in secret_fields(settings) {
+        if *value == placeholder {
+            match store.lookup(&id) {
+                Ok(Some(_)) => continue,
+                Ok(None) => {
+                    value.clear();
+                    missing = true;
+                }
+                Err(e) => {
+                    eprintln!("Failed to read API key {}: {}", id, e);
+                    unreadable = Some(e);
+                    continue;
+                }
+            }
+        } else if !value.is_empty() {
+            match store.set(&id, value.trim()) {
+                Ok(()) => *value = placeholder.clone(),
+                Err(e) => {
+                    eprintln!("Failed to move API key {} to secret store: {}", id, e);
+                    continue;
+                }
+            }
+        } else {
+            continue;
+        }
+        changed = true;
+    }
+    if changed {
+        if let Err(e) = save_settings_to_file(path, settings) {
+            eprintln!("Failed to save settings: {}", e);
+        }
+    }
+    if let Some(e) = unreadable {
+        return Some(format!("部分 API Key 暂时读不到：{}。", e));
+    }
+    missing.then(|| "部分已保存的 API Key 在系统密钥环中找不到，请重新填写。".to_string())
+}
+
+// 获取设置命令（API Key 只有占位符）
 #[tauri::command]
 fn get_settings(state: tauri::State<AppState>) -> Settings {
     state.settings.lock().unwrap().clone()
 }
 
+// API Key 的保存方式，设置窗口中说明
+#[tauri::command]
+fn get_secret_storage(state: tauri::State<AppState>) -> SecretStorage {
+    state.secrets.lock().unwrap().storage()
+}
+
+// 读取设置文件时的问题，设置窗口打开时显示
+#[tauri::command]
+fn get_settings_notice(state: tauri::State<AppState>) -> Option<String> {
+    state.settings_notice.clone()
+}
+
+// 服务配置中无效的自定义请求头
+fn validate_profile_headers(settings: &Settings) -> Vec<SettingsError> {
+    let mut errors = Vec::new();
+    for (index, profile) in settings.llm_profiles.iter().enumerate() {
+        for (name, value) in &profile.headers {
+            if reqwest::header::HeaderName::from_bytes(name.as_bytes()).is_err()
+                || reqwest::header::HeaderValue::from_str(value).is_err()
+            {
+                errors.push(SettingsError {
+                    field: format!("llmProfiles.{}.headers", index),
+                    message: format!("请求头 {} 无效", name),
+                });
+            }
+        }
+    }
+    errors
+}
+
+// 检查设置的取值范围
+fn validate_settings(settings: &Settings) -> Result<(), String> {
+    let value = serde_json::to_value(settings).map_err(|e| e.to_string())?;
+    let mut errors: Vec<SettingsError> = settings_schema::validate(&value);
+    errors.extend(validate_profile_headers(settings));
+    if errors.is_empty() {
+        return Ok(());
+    }
+    let messages: Vec<String> = errors.iter().map(|e| format!("{}: {}", e.field, e.message)).collect();
+    Err(messages.join("; "))
+}
+
+// 设置变化事件：新的设置和变化了的字段（camelCase 字段名）
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct SettingsChange {
+    settings: Settings,
+    changed: Vec<String>,
+}
+
+// 比较新旧设置，返回变化了的字段
+fn changed_settings_fields(old: &Settings, new: &Settings) -> Vec<String> {
+    let (Ok(serde_json::Value::Object(old)), Ok(serde_json::Value::Object(new))) =
+        (serde_json::to_value(old), serde_json::to_value(new))
+    else {
+        return Vec::new();
+    };
+    new.iter()
+        .filter(|(key, value)| old.get(key.as_str()) != Some(*value))
+        .map(|(key, _)| key.clone())
+        .collect()
+}
+
+// 保存设置，只更新受影响的部分（托盘菜单、快捷键），并把变化的字段通知所有窗口
+fn update_settings(app: &tauri::AppHandle, state: &AppState, mut settings: Settings) -> Result<(), String> {
+    validate_settings(&settings)?;
+    let changed = {
+        let mut current = state.settings.lock().unwrap();
+        store_secrets(&mut state.secrets.lock().unwrap(), &mut settings, &current.llm_profiles)?;
+        let changed = changed_settings_fields(&current, &settings);
+        // 代理地址无效时不保存
+        let http_client = if changed.iter().any(|field| HTTP_CLIENT_FIELDS.contains(&field.as_str())) {
+            Some(settings.http_client()?)
+        } else {
+            None
+        };
+        save_settings_to_file(&state.settings_path, &settings)?;
+        *current = settings.clone();
+        if let Some(http_client) = http_client {
+            *state.http_client.lock().unwrap() = http_client;
+        }
+        changed
+    };
+    if changed.is_empty() {
+        return Ok(());
+    }
+
+    let is_changed = |field: &str| changed.iter().any(|c| c == field);
+    if is_changed("llmProfiles") || is_changed("activeLlmProfileId") {
+        refresh_tray_menu(app, &settings);
+    }
+    if is_changed("sttEnabled") || settings.hotkeys().iter().any(|(action, _)| is_changed(action.field())) {
+        state.hotkeys.lock().unwrap().apply(app, &settings.hotkeys());
+    }
+    let _ = app.emit("settings-changed", SettingsChange { settings, changed });
+    Ok(())
+}
+
 // 保存设置命令
 #[tauri::command]
-fn save_settings(state: tauri::State<AppState>, settings: Settings) -> Result<(), String> {
-    let mut current = state.settings.lock().unwrap();
-    *current = settings.clone();
-    save_settings_to_file(&state.settings_path, &settings)
+fn save_settings(app: tauri::AppHandle, state: tauri::State<AppState>, settings: Settings) -> Result<(), String> {
+    update_settings(&app, &state, settings)
+}
+
+// 请求发往的服务：service 为 LLM 服务配置的 id（llm:<配置 id>）、stt（语音识别）或 tts（语音合成）
+// 设置窗口测试还没保存的配置时带上 profile
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct ServiceRef {
+    service: String,
+    profile: Option<LlmProfile>,
+}
+
+// 可以使用未保存的服务配置的窗口
+const UNSAVED_PROFILE_WINDOW: &str = "settings";
+
+// 语音合成的本地 HTTP 接口（不需要 Key）
+const TTS_SERVICE_ID: &str = "tts";
+
+// 按已保存的设置确定请求的服务地址、Key 和自定义请求头，webview 中的代码只能把请求发往这些服务
+// 语音识别没有单独的地址或 Key 时使用当前 LLM 服务的
+fn request_target(state: &AppState, webview: &tauri::Webview, service: &ServiceRef) -> Result<RequestTarget, String> {
+    if let Some(profile) = &service.profile {
+        if webview.label() != UNSAVED_PROFILE_WINDOW {
+            return Err("只有设置窗口可以使用未保存的服务配置".to_string());
+        }
+        return Ok(unsaved_profile_target(state, profile));
+    }
+
+    let settings = state.settings.lock().unwrap();
+    let secrets = state.secrets.lock().unwrap();
+    let profile_target = |profile: &LlmProfile| RequestTarget {
+        base_url: profile.base_url.clone(),
+        api_key: secrets.get(&secrets::profile_secret_id(&profile.id)),
+        headers: profile.headers.iter().map(|(name, value)| (name.clone(), value.clone())).collect(),
+    };
+
+    if service.service == secrets::STT_SECRET_ID {
+        let active = settings
+            .llm_profiles
+            .iter()
+            .find(|p| p.id == settings.active_llm_profile_id)
+            .or(settings.llm_profiles.first());
+        let llm = active.map(profile_target);
+        let mut target = if settings.stt_base_url.trim().is_empty() {
+            llm.clone().ok_or("没有设置语音识别的服务地址")?
+        } else {
+            RequestTarget { base_url: settings.stt_base_url.clone(), api_key: None, headers: Vec::new() }
+        };
+        target.api_key = if settings.stt_api_key.is_empty() {
+            llm.and_then(|llm| llm.api_key)
+        } else {
+            secrets.get(secrets::STT_SECRET_ID)
+        };
+        return Ok(target);
+    }
+
+    // 接口地址中的 {text} 等占位符之前的部分作为服务地址，查询参数不限制
+    if service.service == TTS_SERVICE_ID {
+        let endpoint = settings.tts_endpoint.trim();
+        let base_url = endpoint.split(['?', '{']).next().unwrap_or(endpoint);
+        return Ok(RequestTarget { base_url: base_url.to_string(), api_key: None, headers: Vec::new() });
+    }
+
+    settings
+        .llm_profiles
+        .iter()
+        .find(|p| secrets::profile_secret_id(&p.id) == service.service)
+        .map(profile_target)
+        .ok_or_else(|| "服务配置不存在，请先保存设置".to_string())
+}
+
+// 设置窗口中的服务配置：新填写的 Key 和表单中的地址、请求头一起使用
+// Key 为占位符时使用已保存的同一配置的地址和请求头，存储的 Key 不会发往表单中的其他地址
+fn unsaved_profile_target(state: &AppState, profile: &LlmProfile) -> RequestTarget {
+    let placeholder = &settings_schema::schema().secret_placeholder;
+    let saved = if &profile.api_key == placeholder {
+        state.settings.lock().unwrap().llm_profiles.iter().find(|p| p.id == profile.id).cloned()
+    } else {
+        None
+    };
+    let (profile, api_key) = match &saved {
+        Some(saved) => (saved, state.secrets.lock().unwrap().get(&secrets::profile_secret_id(&saved.id))),
+        // 没有保存过的配置不会有存储的 Key，占位符不发出去
+        None => {
+            let key = profile.api_key.trim();
+            (profile, Some(key.to_string()).filter(|key| !key.is_empty() && key != placeholder))
+        }
+    };
+    RequestTarget {
+        base_url: profile.base_url.clone(),
+        api_key,
+        headers: profile.headers.iter().map(|(name, value)| (name.clone(), value.clone())).collect(),
+    }
+}
+
+// 记录进行中的请求并等待完成，被 cancel_request 取消时返回错误
+async fn run_cancellable<T>(
+    state: &AppState,
+    request_id: String,
+    task: impl std::future::Future<Output = Result<T, String>>,
+) -> Result<T, String> {
+    let (abort_handle, registration) = AbortHandle::new_pair();
+    state.requests.lock().unwrap().insert(request_id.clone(), abort_handle);
+    let result = Abortable::new(task, registration).await;
+    state.requests.lock().unwrap().remove(&request_id);
+    result.unwrap_or_else(|_| Err(chat_proxy::CHAT_CANCELLED.to_string()))
+}
+
+// 转发请求的说明（服务、地址、请求头）放在 IPC 请求头中，请求体以原始字节传入
+const FORWARD_SERVICE_HEADER: &str = "x-forward-service";
+const FORWARD_REQUEST_HEADER: &str = "x-forward-request";
+const FORWARD_CHANNEL_HEADER: &str = "x-forward-channel";
+
+fn request_header<'a>(request: &'a tauri::ipc::Request<'_>, name: &str) -> Result<&'a str, String> {
+    request
+        .headers()
+        .get(name)
+        .and_then(|value| value.to_str().ok())
+        .ok_or_else(|| format!("缺少 {}", name))
+}
+
+fn json_header<T: DeserializeOwned>(request: &tauri::ipc::Request<'_>, name: &str) -> Result<T, String> {
+    serde_json::from_str(request_header(request, name)?).map_err(|e| format!("{} 无效: {}", name, e))
+}
+
+// 转发前端的 HTTP 请求，服务的 Key 和自定义请求头在这里填入，响应通过频道逐块传回
+#[tauri::command]
+async fn forward_request(
+    webview: tauri::Webview,
+    state: tauri::State<'_, AppState>,
+    request: tauri::ipc::Request<'_>,
+) -> Result<(), String> {
+    let service: ServiceRef = json_header(&request, FORWARD_SERVICE_HEADER)?;
+    let forward: ForwardRequest = json_header(&request, FORWARD_REQUEST_HEADER)?;
+    let on_event: tauri::ipc::Channel<ForwardEvent> = request_header(&request, FORWARD_CHANNEL_HEADER)?
+        .parse::<tauri::ipc::JavaScriptChannelId>()
+        .map_err(|e| e.to_string())?
+        .channel_on(webview.clone());
+    let body = match request.body() {
+        tauri::ipc::InvokeBody::Raw(bytes) => bytes.clone(),
+        tauri::ipc::InvokeBody::Json(_) => Vec::new(),
+    };
+
+    let target = request_target(&state, &webview, &service)?;
+    let client = state.http_client.lock().unwrap().clone();
+    let request_id = forward.request_id.clone();
+    run_cancellable(&state, request_id, http_forward::forward(&client, target, forward, body, &on_event)).await
+}
+
+// 对话请求：requestId 用于取消，body 为 chat/completions 的参数
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct ChatCompletionRequest {
+    request_id: String,
+    service: ServiceRef,
+    body: Value,
+}
+
+// 发送对话请求，流式回复通过 on_event 逐块传回；被 cancel_request 取消时返回错误
+#[tauri::command]
+async fn chat_completion(
+    webview: tauri::Webview,
+    state: tauri::State<'_, AppState>,
+    request: ChatCompletionRequest,
+    on_event: tauri::ipc::Channel<ChatEvent>,
+) -> Result<Value, String> {
+    let target = request_target(&state, &webview, &request.service)?;
+    let client = state.http_client.lock().unwrap().clone();
+    run_cancellable(&state, request.request_id, chat_proxy::chat_completion(&client, target, request.body, &on_event)).await
+}
+
+// 取消进行中的请求（停止生成、请求超时）
+#[tauri::command]
+fn cancel_request(state: tauri::State<AppState>, request_id: String) {
+    if let Some(handle) = state.requests.lock().unwrap().remove(&request_id) {
+        handle.abort();
+    }
+}
+
+// 注册失败的全局快捷键（设置窗口保存后查询）
+#[tauri::command]
+fn get_hotkey_errors(state: tauri::State<AppState>) -> Vec<HotkeyError> {
+    state.hotkeys.lock().unwrap().errors()
+}
+
+// 显示或隐藏角色窗口（托盘菜单、托盘图标和快捷键共用）
+fn toggle_main_window<R: tauri::Runtime>(app: &tauri::AppHandle<R>) {
+    if let Some(window) = app.get_webview_window("main") {
+        if window.is_visible().unwrap_or(false) {
+            let _ = window.hide();
+        } else {
+            let _ = window.show();
+            let _ = window.set_focus();
+        }
+    }
+}
+
+// 全局快捷键按下：显示/隐藏在这里处理，其余的显示窗口后交给主窗口
+// 按住说话的按下和松开都通知主窗口（true 为按下）
+fn handle_hotkey<R: tauri::Runtime>(app: &tauri::AppHandle<R>, action: HotkeyAction, state: ShortcutState) {
+    match action {
+        HotkeyAction::PushToTalk => {
+            let _ = app.emit("push-to-talk", state == ShortcutState::Pressed);
+        }
+        _ if state != ShortcutState::Pressed => {}
+        HotkeyAction::TogglePet => toggle_main_window(app),
+        HotkeyAction::OpenChat | HotkeyAction::RepeatLast => {
+            if let Some(window) = app.get_webview_window("main") {
+                let _ = window.show();
+                if action == HotkeyAction::OpenChat {
+                    let _ = window.set_focus();
+                }
+            }
+            let _ = app.emit("hotkey-pressed", action.field());
+        }
+    }
+}
+
+// 构建托盘菜单（LLM 服务列表随设置变化）
+fn build_tray_menu<R: tauri::Runtime>(app: &tauri::AppHandle<R>, settings: &Settings) -> tauri::Result<Menu<R>> {
+    let quit = MenuItem::with_id(app, "quit", "退出", true, None::<&str>)?;
+    let show = MenuItem::with_id(app, "show", "显示/隐藏", true, None::<&str>)?;
+    let settings_item = MenuItem::with_id(app, "settings", "设置", true, None::<&str>)?;
+
+    let providers = Submenu::with_id(app, "providers", "模型", true)?;
+    for profile in &settings.llm_profiles {
+        let item = CheckMenuItem::with_id(
+            app,
+            format!("{}{}", PROFILE_MENU_PREFIX, profile.id),
+            &profile.name,
+            true,
+            profile.id == settings.active_llm_profile_id,
+            None::<&str>,
+        )?;
+        providers.append(&item)?;
+    }
+
+    Menu::with_items(app, &[&show, &providers, &settings_item, &quit])
+}
+
+// 设置变化后重建托盘菜单
+fn refresh_tray_menu<R: tauri::Runtime>(app: &tauri::AppHandle<R>, settings: &Settings) {
+    if let Some(tray) = app.tray_by_id(TRAY_ID) {
+        match build_tray_menu(app, settings) {
+            Ok(menu) => {
+                let _ = tray.set_menu(Some(menu));
+            }
+            Err(e) => eprintln!("Failed to rebuild tray menu: {}", e),
+        }
+    }
+}
+
+// 从托盘菜单切换当前使用的 LLM 服务，并通知所有窗口
+fn select_llm_profile(app: &tauri::AppHandle, profile_id: &str) {
+    let state = app.state::<AppState>();
+    let settings = Settings {
+        active_llm_profile_id: profile_id.to_string(),
+        ..state.settings.lock().unwrap().clone()
+    };
+    if let Err(e) = update_settings(app, &state, settings) {
+        eprintln!("Failed to save settings: {}", e);
+    }
+}
+
+// 获取会话列表
+#[tauri::command]
+fn get_chat_sessions(state: tauri::State<AppState>) -> SessionList {
+    state.history.lock().unwrap().list()
+}
+
+// 新建会话（并切换为当前会话）
+#[tauri::command]
+fn create_chat_session(state: tauri::State<AppState>, name: Option<String>) -> Result<SessionMeta, String> {
+    state.history.lock().unwrap().create(name.unwrap_or_default())
+}
+
+// 切换当前会话
+#[tauri::command]
+fn switch_chat_session(state: tauri::State<AppState>, session_id: String) -> Result<(), String> {
+    state.history.lock().unwrap().switch(&session_id)
+}
+
+// 重命名会话
+#[tauri::command]
+fn rename_chat_session(state: tauri::State<AppState>, session_id: String, name: String) -> Result<(), String> {
+    state.history.lock().unwrap().rename(&session_id, name)
+}
+
+// 删除会话
+#[tauri::command]
+fn delete_chat_session(state: tauri::State<AppState>, session_id: String) -> Result<(), String> {
+    state.history.lock().unwrap().delete(&session_id)
+}
+
+// 追加消息到会话
+#[tauri::command]
+fn append_chat_messages(
+    state: tauri::State<AppState>,
+    session_id: String,
+    messages: Vec<ChatMessage>,
+) -> Result<SessionMeta, String> {
+    state.history.lock().unwrap().append(&session_id, messages)
+}
+
+// 分页读取会话消息（end 之前的 limit 条，end 为空表示从最新开始）
+#[tauri::command]
+fn get_chat_messages(
+    state: tauri::State<AppState>,
+    session_id: String,
+    end: Option<usize>,
+    limit: usize,
+) -> Result<MessagePage, String> {
+    state.history.lock().unwrap().page(&session_id, end, limit)
+}
+
+// 导入对话记录为新的会话
+#[tauri::command]
+fn import_chat_session(
+    state: tauri::State<AppState>,
+    name: String,
+    messages: Vec<ChatMessage>,
+) -> Result<SessionMeta, String> {
+    state.history.lock().unwrap().import(name, messages)
+}
+
+// 对话记录导出和导入的文件：由 Rust 端打开文件对话框，只读写对话框返回的路径，只允许这几种扩展名
+const CHAT_EXPORT_EXTENSIONS: [&str; 3] = ["md", "json", "jsonl"];
+
+fn check_chat_export_path(path: &std::path::Path) -> Result<(), String> {
+    let allowed = path
+        .extension()
+        .and_then(|ext| ext.to_str())
+        .map_or(false, |ext| CHAT_EXPORT_EXTENSIONS.contains(&ext.to_ascii_lowercase().as_str()));
+    if allowed {
+        Ok(())
+    } else {
+        Err("只支持 .md、.json 和 .jsonl 文件".to_string())
+    }
+}
+
+// 导入的对话文件，path 只用于按扩展名解析和命名
+#[derive(Serialize)]
+struct ChatImportFile {
+    path: String,
+    content: String,
+}
+
+// 选择保存位置并写入导出的对话，取消时返回 false
+// 对话框会阻塞，所以是 async 命令（不在主线程执行）
+#[tauri::command]
+async fn export_chat_file(
+    app: tauri::AppHandle,
+    default_name: String,
+    filter_name: String,
+    extension: String,
+    content: String,
+) -> Result<bool, String> {
+    if !CHAT_EXPORT_EXTENSIONS.contains(&extension.as_str()) {
+        return Err("只支持 .md、.json 和 .jsonl 文件".to_string());
+    }
+    let Some(file) = app
+        .dialog()
+        .file()
+        .set_title("导出对话")
+        .set_file_name(default_name)
+        .add_filter(filter_name, &[extension.as_str()])
+        .blocking_save_file()
+    else {
+        return Ok(false);
+    };
+    let path = file.into_path().map_err(|e| e.to_string())?;
+    check_chat_export_path(&path)?;
+    fs::write(&path, content).map_err(|e| e.to_string())?;
+    Ok(true)
+}
+
+// 选择要导入的对话文件并读取，取消时返回 None
+#[tauri::command]
+async fn import_chat_file(app: tauri::AppHandle) -> Result<Option<ChatImportFile>, String> {
+    let Some(file) = app
+        .dialog()
+        .file()
+        .set_title("导入对话")
+        .add_filter("对话记录", &["json", "jsonl"])
+        .blocking_pick_file()
+    else {
+        return Ok(None);
+    };
+    let path = file.into_path().map_err(|e| e.to_string())?;
+    check_chat_export_path(&path)?;
+    let content = fs::read_to_string(&path).map_err(|e| e.to_string())?;
+    Ok(Some(ChatImportFile { path: path.to_string_lossy().into_owned(), content }))
+}
+
+// 保存会话的早期对话摘要
+#[tauri::command]
+fn set_chat_session_summary(state: tauri::State<AppState>, session_id: String, summary: String) -> Result<(), String> {
+    state.history.lock().unwrap().set_summary(&session_id, summary)
+}
+
+// 获取长期记忆
+#[tauri::command]
+fn get_memory_facts(state: tauri::State<AppState>) -> Vec<MemoryFact> {
+    state.memory.lock().unwrap().list()
+}
+
+// 添加长期记忆（自动去重），返回新增的条目
+#[tauri::command]
+fn add_memory_facts(state: tauri::State<AppState>, contents: Vec<String>) -> Result<Vec<MemoryFact>, String> {
+    state.memory.lock().unwrap().add(contents)
+}
+
+// 修改一条长期记忆
+#[tauri::command]
+fn update_memory_fact(state: tauri::State<AppState>, id: String, content: String) -> Result<(), String> {
+    state.memory.lock().unwrap().update(&id, content)
+}
+
+// 删除一条长期记忆
+#[tauri::command]
+fn delete_memory_fact(state: tauri::State<AppState>, id: String) -> Result<(), String> {
+    state.memory.lock().unwrap().delete(&id)
+}
+
+#[tauri::command]
+fn get_reminders(state: tauri::State<AppState>) -> Vec<Reminder> {
+    state.reminders.lock().unwrap().list()
+}
+
+#[tauri::command]
+fn add_reminder(
+    app: tauri::AppHandle,
+    state: tauri::State<AppState>,
+    message: String,
+    due_at: u64,
+    repeat_minutes: u32,
+) -> Result<Reminder, String> {
+    let reminder = state.reminders.lock().unwrap().add(message, due_at, repeat_minutes)?;
+    let _ = app.emit("reminders-updated", ());
+    Ok(reminder)
+}
+
+#[tauri::command]
+fn delete_reminder(app: tauri::AppHandle, state: tauri::State<AppState>, id: String) -> Result<(), String> {
+    state.reminders.lock().unwrap().delete(&id)?;
+    let _ = app.emit("reminders-updated", ());
+    Ok(())
+}
+
+// 开始检查提醒（主窗口注册好事件监听之后调用，避免启动时到期的提醒没人接收）
+#[tauri::command]
+fn start_reminder_scheduler(app: tauri::AppHandle, state: tauri::State<AppState>) {
+    if state.reminder_scheduler_started.swap(true, Ordering::SeqCst) {
+        return;
+    }
+    std::thread::spawn(move || loop {
+        fire_due_reminders(&app);
+        std::thread::sleep(REMINDER_CHECK_INTERVAL);
+    });
+}
+
+// 老师正在使用的窗口标题（不包括桌宠自己）
+#[tauri::command]
+fn get_active_window_title(state: tauri::State<AppState>) -> String {
+    state.active_window.title()
+}
+
+// 提示词模板用到前台窗口时在后台定时记录，不用时停止
+#[tauri::command]
+fn set_active_window_tracking(app: tauri::AppHandle, state: tauri::State<AppState>, enabled: bool) {
+    if state.active_window.set_enabled(enabled) {
+        std::thread::spawn(move || loop {
+            std::thread::sleep(active_window::SAMPLE_INTERVAL);
+            let state = app.state::<AppState>();
+            if !state.active_window.keep_running() {
+                break;
+            }
+            state.active_window.sample();
+        });
+    }
+}
+
+// 触发到期的提醒：通知主窗口，按设置发送系统通知
+fn fire_due_reminders(app: &tauri::AppHandle) {
+    let state = app.state::<AppState>();
+    let due = state.reminders.lock().unwrap().take_due(history::now_millis());
+    if due.is_empty() {
+        return;
+    }
+
+    let notify = state.settings.lock().unwrap().reminder_notification;
+    for reminder in &due {
+        if notify {
+            if let Err(e) = app.notification().builder().title("提醒").body(&reminder.message).show() {
+                eprintln!("Failed to show notification: {}", e);
+            }
+        }
+        let _ = app.emit("reminder-fired", reminder);
+    }
+    let _ = app.emit("reminders-updated", ());
+}
+
+// 获取已导入的角色包
+#[tauri::command]
+fn get_character_packs(state: tauri::State<AppState>) -> Vec<CharacterManifest> {
+    state.characters.list()
+}
+
+// 从目录或 zip 文件导入角色包
+#[tauri::command]
+fn import_character_pack(state: tauri::State<AppState>, path: String) -> Result<CharacterManifest, String> {
+    state.characters.import(std::path::Path::new(&path))
+}
+
+#[tauri::command]
+fn delete_character_pack(state: tauri::State<AppState>, id: String) -> Result<(), String> {
+    state.characters.delete(&id)
+}
+
+// character:// 协议：提供角色包中的骨骼、atlas 和贴图文件
+fn serve_character_file<R: tauri::Runtime>(
+    app: &tauri::AppHandle<R>,
+    request: &tauri::http::Request<Vec<u8>>,
+) -> tauri::http::Response<Vec<u8>> {
+    let relative = characters::percent_decode(request.uri().path().trim_start_matches('/'));
+    let state = app.state::<AppState>();
+    let file = state.characters.resolve_file(&relative);
+
+    match file.and_then(|path| fs::read(&path).ok().map(|data| (path, data))) {
+        Some((path, data)) => tauri::http::Response::builder()
+            .header("Content-Type", characters::mime_type(&path))
+            .header("Access-Control-Allow-Origin", "*")
+            .body(data)
+            .unwrap(),
+        None => tauri::http::Response::builder()
+            .status(404)
+            .header("Access-Control-Allow-Origin", "*")
+            .body(Vec::new())
+            .unwrap(),
+    }
 }
 
 // 设置窗口是否忽略鼠标事件（点击穿透）
@@ -104,11 +1137,68 @@ fn set_ignore_cursor_events(window: tauri::Window, ignore: bool) -> Result<(), S
         .map_err(|e| e.to_string())
 }
 
-// 获取全局鼠标位置（屏幕坐标）
+// 窗口中接收鼠标事件的矩形（逻辑像素）
+#[derive(Deserialize)]
+struct InputRect {
+    x: f64,
+    y: f64,
+    width: f64,
+    height: f64,
+}
+
+// 只让这些矩形接收鼠标事件，其余部分的点击落到下面的窗口
+// 用于读不到全局鼠标位置、不能按鼠标位置切换点击穿透的 Wayland；其他平台不需要
+#[tauri::command]
+fn set_input_region(window: tauri::WebviewWindow, rects: Vec<InputRect>) -> Result<(), String> {
+    #[cfg(target_os = "linux")]
+    {
+        window
+            .with_webview(move |webview| {
+                use gtk::prelude::WidgetExt;
+                let rects: Vec<gtk::cairo::RectangleInt> = rects
+                    .iter()
+                    .map(|r| {
+                        gtk::cairo::RectangleInt::new(
+                            r.x.floor() as i32,
+                            r.y.floor() as i32,
+                            r.width.ceil() as i32,
+                            r.height.ceil() as i32,
+                        )
+                    })
+                    .collect();
+                if let Some(toplevel) = webview.inner().toplevel() {
+                    toplevel.input_shape_combine_region(Some(&gtk::cairo::Region::create_rectangles(&rects)));
+                }
+            })
+            .map_err(|e| e.to_string())
+    }
+    #[cfg(not(target_os = "linux"))]
+    {
+        let _ = (window, rects);
+        Ok(())
+    }
+}
+
+// 当前平台上不能使用的功能的说明（设置窗口顶部显示），没有限制时为 None
+#[tauri::command]
+fn get_platform_notice() -> Option<String> {
+    #[cfg(target_os = "linux")]
+    if is_wayland_session() {
+        return Some(WAYLAND_NOTICE.to_string());
+    }
+    None
+}
+
+#[cfg(target_os = "linux")]
+const WAYLAND_NOTICE: &str = "当前是 Wayland 会话：只能按角色和对话框的矩形范围点击穿透，窗口位置不会记住，全局快捷键也不生效。用 GDK_BACKEND=x11 spine-pet 启动（通过 XWayland 运行）可以使用这些功能";
+
+// 获取全局鼠标位置（屏幕坐标，物理像素）
+// Windows 直接调用 GetCursorPos，macOS 和 Linux (X11) 使用 Tauri 的 cursor_position
 #[tauri::command]
-fn get_cursor_position() -> Result<(i32, i32), String> {
+fn get_cursor_position(window: tauri::Window) -> Result<(i32, i32), String> {
     #[cfg(windows)]
     {
+        let _ = &window;
         let mut point = POINT::default();
         unsafe {
             GetCursorPos(&mut point).map_err(|e| e.to_string())?;
@@ -117,32 +1207,189 @@ fn get_cursor_position() -> Result<(i32, i32), String> {
     }
     #[cfg(not(windows))]
     {
-        Err("Not implemented for this platform".to_string())
+        #[cfg(target_os = "linux")]
+        if is_wayland_session() {
+            return Err("Global cursor position is not available on Wayland".to_string());
+        }
+        let position = window.cursor_position().map_err(|e| e.to_string())?;
+        Ok((position.x.round() as i32, position.y.round() as i32))
     }
 }
 
+// 恢复当前显示器布局下上次的窗口位置，限制在屏幕内
+#[tauri::command]
+fn restore_window_position(window: tauri::Window, state: tauri::State<AppState>) -> Result<(), String> {
+    if !window_position_supported() {
+        return Ok(());
+    }
+    let monitors = window.available_monitors().map_err(|e| e.to_string())?;
+    let saved = state.window_positions.lock().unwrap().get(&window_position::layout_key(&monitors));
+    if let Some(position) = saved {
+        let size = window.outer_size().map_err(|e| e.to_string())?;
+        let clamped = window_position::clamp_to_monitors(&monitors, position, size);
+        window.set_position(clamped).map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
+
+// 保存窗口位置（移动结束后由主窗口调用）
+#[tauri::command]
+fn save_window_position(window: tauri::Window, state: tauri::State<AppState>) -> Result<(), String> {
+    if !window_position_supported() {
+        return Ok(());
+    }
+    let monitors = window.available_monitors().map_err(|e| e.to_string())?;
+    let position = window.outer_position().map_err(|e| e.to_string())?;
+    state
+        .window_positions
+        .lock()
+        .unwrap()
+        .set(window_position::layout_key(&monitors), WindowPosition { x: position.x, y: position.y })
+}
+
+// 窗口大小变化后把窗口移回屏幕内
+#[tauri::command]
+fn clamp_window_position(window: tauri::Window) -> Result<(), String> {
+    if !window_position_supported() {
+        return Ok(());
+    }
+    let monitors = window.available_monitors().map_err(|e| e.to_string())?;
+    let position = window.outer_position().map_err(|e| e.to_string())?;
+    let size = window.outer_size().map_err(|e| e.to_string())?;
+    let clamped = window_position::clamp_to_monitors(&monitors, WindowPosition { x: position.x, y: position.y }, size);
+    if clamped.x != position.x || clamped.y != position.y {
+        window.set_position(clamped).map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
+
+// Wayland 下读不到也设置不了窗口的全局位置
+fn window_position_supported() -> bool {
+    #[cfg(target_os = "linux")]
+    {
+        !is_wayland_session()
+    }
+    #[cfg(not(target_os = "linux"))]
+    {
+        true
+    }
+}
+
+// Wayland 不允许读取全局鼠标位置（返回的总是 (0, 0)），通过 XWayland 运行时不受影响
+#[cfg(target_os = "linux")]
+fn is_wayland_session() -> bool {
+    let forced_x11 = std::env::var("GDK_BACKEND").map_or(false, |backend| backend.starts_with("x11"));
+    !forced_x11 && std::env::var_os("WAYLAND_DISPLAY").is_some()
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![set_ignore_cursor_events, get_cursor_position, get_settings, save_settings])
+        .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_notification::init())
+        .plugin(tauri_plugin_clipboard_manager::init())
+        .plugin(
+            tauri_plugin_global_shortcut::Builder::new()
+                .with_handler(|app, shortcut, event| {
+                    let action = app.state::<AppState>().hotkeys.lock().unwrap().action_for(shortcut);
+                    if let Some(action) = action {
+                        handle_hotkey(app, action, event.state());
+                    }
+                })
+                .build(),
+        )
+        .register_uri_scheme_protocol("character", |ctx, request| {
+            serve_character_file(ctx.app_handle(), &request)
+        })
+        .invoke_handler(tauri::generate_handler![
+            set_ignore_cursor_events,
+            set_input_region,
+            get_platform_notice,
+            get_cursor_position,
+            get_settings,
+            get_settings_notice,
+            get_secret_storage,
+            save_settings,
+            forward_request,
+            chat_completion,
+            cancel_request,
+            get_chat_sessions,
+            create_chat_session,
+            switch_chat_session,
+            rename_chat_session,
+            delete_chat_session,
+            append_chat_messages,
+            get_chat_messages,
+            set_chat_session_summary,
+            import_chat_session,
+            export_chat_file,
+            import_chat_file,
+            get_memory_facts,
+            add_memory_facts,
+            update_memory_fact,
+            delete_memory_fact,
+            get_character_packs,
+            import_character_pack,
+            delete_character_pack,
+            get_reminders,
+            add_reminder,
+            delete_reminder,
+            start_reminder_scheduler,
+            get_active_window_title,
+            set_active_window_tracking,
+            get_hotkey_errors,
+            restore_window_position,
+            save_window_position,
+            clamp_window_position
+        ])
         .setup(|app| {
             // 初始化设置
             let settings_path = get_settings_path(app.handle());
-            let settings = load_settings_from_file(&settings_path);
+            let (mut settings, settings_notice) = load_settings_from_file(&settings_path);
+            let mut secret_store =
+                SecretStore::open(settings_path.with_file_name("secrets.bin"), has_stored_secrets(&mut settings));
+            let secrets_notice = secure_loaded_settings(&settings_path, &mut secret_store, &mut settings);
+            let settings_notice = match (settings_notice, secrets_notice) {
+                (Some(notice), Some(secrets_notice)) => Some(format!("{} {}", notice, secrets_notice)),
+                (notice, secrets_notice) => notice.or(secrets_notice),
+            };
+            let menu_settings = settings.clone();
+            let http_client = settings.http_client().unwrap_or_else(|e| {
+                eprintln!("Failed to create HTTP client from settings: {}", e);
+                reqwest::Client::new()
+            });
+            let history_dir = settings_path.with_file_name("sessions");
+            let memory_path = settings_path.with_file_name("memory.json");
+            let characters_dir = settings_path.with_file_name("characters");
+            let reminders_path = settings_path.with_file_name("reminders.json");
+            let window_positions_path = settings_path.with_file_name("window_positions.json");
             app.manage(AppState {
                 settings: Mutex::new(settings),
                 settings_path,
+                settings_notice,
+                history: Mutex::new(HistoryStore::load(history_dir)),
+                memory: Mutex::new(MemoryStore::load(memory_path)),
+                characters: CharacterStore::new(characters_dir),
+                reminders: Mutex::new(ReminderStore::load(reminders_path)),
+                reminder_scheduler_started: AtomicBool::new(false),
+                hotkeys: Mutex::new(HotkeyRegistry::default()),
+                window_positions: Mutex::new(WindowPositionStore::load(window_positions_path)),
+                secrets: Mutex::new(secret_store),
+                http_client: Mutex::new(http_client),
+                requests: Mutex::new(HashMap::new()),
+                active_window: ActiveWindowTracker::default(),
             });
+
+            // 注册全局快捷键
+            let state = app.state::<AppState>();
+            state.hotkeys.lock().unwrap().apply(app.handle(), &menu_settings.hotkeys());
             
             // 创建托盘菜单
-            let quit = MenuItem::with_id(app, "quit", "退出", true, None::<&str>)?;
-            let show = MenuItem::with_id(app, "show", "显示/隐藏", true, None::<&str>)?;
-            let settings = MenuItem::with_id(app, "settings", "设置", true, None::<&str>)?;
-            let menu = Menu::with_items(app, &[&show, &settings, &quit])?;
+            let menu = build_tray_menu(app.handle(), &menu_settings)?;
 
             // 创建托盘图标
-            let _tray = TrayIconBuilder::new()
+            let _tray = TrayIconBuilder::with_id(TRAY_ID)
                 .icon(app.default_window_icon().unwrap().clone())
                 .menu(&menu)
                 .tooltip("Spine Pet")
@@ -150,15 +1397,9 @@ pub fn run() {
                     "quit" => {
                         app.exit(0);
                     }
-                    "show" => {
-                        if let Some(window) = app.get_webview_window("main") {
-                            if window.is_visible().unwrap_or(false) {
-                                let _ = window.hide();
-                            } else {
-                                let _ = window.show();
-                                let _ = window.set_focus();
-                            }
-                        }
+                    "show" => toggle_main_window(app),
+                    id if id.starts_with(PROFILE_MENU_PREFIX) => {
+                        select_llm_profile(app, &id[PROFILE_MENU_PREFIX.len()..]);
                     }
                     "settings" => {
                         // 检查设置窗口是否已存在
@@ -188,15 +1429,7 @@ pub fn run() {
                         ..
                     } = event
                     {
-                        let app = tray.app_handle();
-                        if let Some(window) = app.get_webview_window("main") {
-                            if window.is_visible().unwrap_or(false) {
-                                let _ = window.hide();
-                            } else {
-                                let _ = window.show();
-                                let _ = window.set_focus();
-                            }
-                        }
+                        toggle_main_window(tray.app_handle());
                     }
                 })
                 .build(app)?;
@@ -0,0 +1,88 @@
+// 长期记忆：关于老师的事实（名字、作息、喜好等），保存在 memory.json
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::path::PathBuf;
+
+use crate::history::now_millis;
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct MemoryFact {
+    pub id: String,
+    pub content: String,
+    pub created_at: u64,
+    pub updated_at: u64,
+}
+
+// 最多保留的事实条数，超出时丢弃最早的
+const MAX_FACTS: usize = 50;
+
+pub struct MemoryStore {
+    path: PathBuf,
+    facts: Vec<MemoryFact>,
+}
+
+impl MemoryStore {
+    // 从文件加载，文件不存在或损坏时为空
+    pub fn load(path: PathBuf) -> Self {
+        let facts = fs::read_to_string(&path)
+            .ok()
+            .and_then(|content| serde_json::from_str(&content).ok())
+            .unwrap_or_default();
+        Self { path, facts }
+    }
+
+    fn save(&self) -> Result<(), String> {
+        let content = serde_json::to_string_pretty(&self.facts).map_err(|e| e.to_string())?;
+        fs::write(&self.path, content).map_err(|e| e.to_string())
+    }
+
+    pub fn list(&self) -> Vec<MemoryFact> {
+        self.facts.clone()
+    }
+
+    // 添加事实，忽略空内容和已有的重复内容，返回实际新增的条目
+    pub fn add(&mut self, contents: Vec<String>) -> Result<Vec<MemoryFact>, String> {
+        let now = now_millis();
+        let mut added = Vec::new();
+
+        for (i, content) in contents.into_iter().enumerate() {
+            let content = content.trim().to_string();
+            if content.is_empty() || self.facts.iter().any(|f| f.content == content) {
+                continue;
+            }
+            let fact = MemoryFact {
+                id: format!("{}-{}", now, i),
+                content,
+                created_at: now,
+                updated_at: now,
+            };
+            self.facts.push(fact.clone());
+            added.push(fact);
+        }
+
+        if self.facts.len() > MAX_FACTS {
+            let overflow = self.facts.len() - MAX_FACTS;
+            self.facts.drain(..overflow);
+        }
+
+        self.save()?;
+        Ok(added)
+    }
+
+    pub fn update(&mut self, id: &str, content: String) -> Result<(), String> {
+        let fact = self
+            .facts
+            .iter_mut()
+            .find(|f| f.id == id)
+            .ok_or_else(|| format!("记忆不存在: {}", id))?;
+        fact.content = content.trim().to_string();
+        fact.updated_at = now_millis();
+        self.save()
+    }
+
+    pub fn delete(&mut self, id: &str) -> Result<(), String> {
+        self.facts.retain(|f| f.id != id);
+        self.save()
+    }
+}
@@ -0,0 +1,100 @@
+// 提醒：保存在 reminders.json，应用重启后继续有效
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::path::PathBuf;
+
+use crate::history::now_millis;
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Reminder {
+    pub id: String,
+    pub message: String,
+    pub due_at: u64, // 下次提醒的时间（毫秒时间戳）
+    #[serde(default)]
+    pub repeat_minutes: u32, // 重复间隔（分钟），0 表示只提醒一次
+    pub created_at: u64,
+}
+
+pub struct ReminderStore {
+    path: PathBuf,
+    reminders: Vec<Reminder>,
+}
+
+impl ReminderStore {
+    // 从文件加载，文件不存在或损坏时为空
+    pub fn load(path: PathBuf) -> Self {
+        let reminders = fs::read_to_string(&path)
+            .ok()
+            .and_then(|content| serde_json::from_str(&content).ok())
+            .unwrap_or_default();
+        Self { path, reminders }
+    }
+
+    fn save(&self) -> Result<(), String> {
+        let content = serde_json::to_string_pretty(&self.reminders).map_err(|e| e.to_string())?;
+        fs::write(&self.path, content).map_err(|e| e.to_string())
+    }
+
+    // 按提醒时间排序
+    pub fn list(&self) -> Vec<Reminder> {
+        let mut reminders = self.reminders.clone();
+        reminders.sort_by_key(|r| r.due_at);
+        reminders
+    }
+
+    pub fn add(&mut self, message: String, due_at: u64, repeat_minutes: u32) -> Result<Reminder, String> {
+        let message = message.trim().to_string();
+        if message.is_empty() {
+            return Err("提醒内容不能为空".to_string());
+        }
+
+        let now = now_millis();
+        let reminder = Reminder {
+            id: format!("{}-{}", now, self.reminders.len()),
+            message,
+            due_at,
+            repeat_minutes,
+            created_at: now,
+        };
+        self.reminders.push(reminder.clone());
+        self.save()?;
+        Ok(reminder)
+    }
+
+    pub fn delete(&mut self, id: &str) -> Result<(), String> {
+        let before = self.reminders.len();
+        self.reminders.retain(|r| r.id != id);
+        if self.reminders.len() == before {
+            return Err(format!("提醒不存在: {}", id));
+        }
+        self.save()
+    }
+
+    // 取出已到时间的提醒：一次性的删除，重复的推到下一个未来的时间
+    // 应用关闭期间错过的提醒只触发一次
+    pub fn take_due(&mut self, now: u64) -> Vec<Reminder> {
+        let mut due = Vec::new();
+
+        self.reminders.retain_mut(|reminder| {
+            if reminder.due_at > now {
+                return true;
+            }
+            due.push(reminder.clone());
+            if reminder.repeat_minutes == 0 {
+                return false;
+            }
+            let interval = reminder.repeat_minutes as u64 * 60 * 1000;
+            let missed = (now - reminder.due_at) / interval + 1;
+            reminder.due_at += missed * interval;
+            true
+        });
+
+        if !due.is_empty() {
+            if let Err(e) = self.save() {
+                eprintln!("Failed to save reminders: {}", e);
+            }
+        }
+        due
+    }
+}
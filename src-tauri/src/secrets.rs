@@ -0,0 +1,242 @@
+// API Key 的保存：优先使用系统密钥环（Keychain / Windows 凭据管理器 / Secret Service），
+// 没有可用密钥环时（如无桌面环境的 Linux）保存到 secrets.bin。secrets.bin 的密钥由固定字符串、
+// machine-id 和同一文件中的盐派生，能读到这个文件的人就能还原 Key，所以只是混淆，不是加密。
+// 设置文件和前端只会看到占位符，真正的 Key 只在 Rust 端发送请求时使用。
+// 使用哪种方式在第一次保存 Key 时确定，之后不会自动切换（切换后原来保存的 Key 就找不到了）。
+use ring::aead::{Aad, LessSafeKey, Nonce, UnboundKey, CHACHA20_POLY1305, NONCE_LEN};
+use ring::digest::{digest, SHA256};
+use ring::rand::{SecureRandom, SystemRandom};
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::path::PathBuf;
+
+// 密钥环中的服务名
+const KEYRING_SERVICE: &str = "spine-pet";
+// 检查密钥环是否可用时读取的条目，不存在也没关系
+const KEYRING_PROBE: &str = "probe";
+const SALT_LEN: usize = 16;
+
+// 语音识别服务的 Key 的 id
+pub const STT_SECRET_ID: &str = "stt";
+
+// LLM 服务配置的 Key 的 id
+pub fn profile_secret_id(profile_id: &str) -> String {
+    format!("llm:{}", profile_id)
+}
+
+// secrets.bin 的内容：盐和每个 Key 的「nonce + 密文」（十六进制）
+#[derive(Default, Serialize, Deserialize)]
+struct SecretFileContent {
+    salt: String,
+    secrets: HashMap<String, String>,
+}
+
+// 混淆保存的文件：密钥由本机的 machine-id 和随机的盐派生，只能防止直接看到 Key 或复制到其他机器上使用
+struct SecretFile {
+    path: PathBuf,
+    key: LessSafeKey,
+    content: SecretFileContent,
+}
+
+fn to_hex(bytes: &[u8]) -> String {
+    bytes.iter().map(|b| format!("{:02x}", b)).collect()
+}
+
+fn from_hex(text: &str) -> Option<Vec<u8>> {
+    if text.len() % 2 != 0 {
+        return None;
+    }
+    (0..text.len())
+        .step_by(2)
+        .map(|i| u8::from_str_radix(text.get(i..i + 2)?, 16).ok())
+        .collect()
+}
+
+// 本机标识，读不到时为空（此时只靠盐，相当于混淆）
+fn machine_id() -> String {
+    ["/etc/machine-id", "/var/lib/dbus/machine-id"]
+        .iter()
+        .find_map(|path| fs::read_to_string(path).ok())
+        .map(|id| id.trim().to_string())
+        .unwrap_or_default()
+}
+
+impl SecretFile {
+    // 从文件加载，文件不存在或损坏时重新生成盐（旧的 Key 无法恢复，需要重新填写）
+    fn load(path: PathBuf) -> Self {
+        let loaded: Option<SecretFileContent> = fs::read_to_string(&path)
+            .ok()
+            .and_then(|content| serde_json::from_str(&content).ok());
+        let content = match loaded {
+            Some(content) if from_hex(&content.salt).is_some_and(|salt| salt.len() == SALT_LEN) => content,
+            _ => {
+                let mut salt = [0u8; SALT_LEN];
+                SystemRandom::new().fill(&mut salt).expect("Failed to generate salt");
+                SecretFileContent { salt: to_hex(&salt), secrets: HashMap::new() }
+            }
+        };
+
+        let material = format!("{}:{}:{}", KEYRING_SERVICE, machine_id(), content.salt);
+        let hash = digest(&SHA256, material.as_bytes());
+        let key = UnboundKey::new(&CHACHA20_POLY1305, hash.as_ref()).expect("Invalid key length");
+        Self { path, key: LessSafeKey::new(key), content }
+    }
+
+    fn save(&self) -> Result<(), String> {
+        let content = serde_json::to_string_pretty(&self.content).map_err(|e| e.to_string())?;
+        fs::write(&self.path, content).map_err(|e| e.to_string())?;
+        // 只有当前用户可以读取
+        #[cfg(unix)]
+        {
+            use std::os::unix::fs::PermissionsExt;
+            fs::set_permissions(&self.path, fs::Permissions::from_mode(0o600)).map_err(|e| e.to_string())?;
+        }
+        Ok(())
+    }
+
+    // 没有保存时为 Ok(None)，有但无法还原（文件损坏、machine-id 变了）时为错误
+    fn get(&self, id: &str) -> Result<Option<String>, String> {
+        let Some(stored) = self.content.secrets.get(id) else {
+            return Ok(None);
+        };
+        self.decrypt(id, stored).map(Some).ok_or_else(|| format!("secrets.bin 中的 {} 无法还原", id))
+    }
+
+    fn decrypt(&self, id: &str, stored: &str) -> Option<String> {
+        let bytes = from_hex(stored)?;
+        if bytes.len() < NONCE_LEN {
+            return None;
+        }
+        let (nonce, ciphertext) = bytes.split_at(NONCE_LEN);
+        let nonce = Nonce::try_assume_unique_for_key(nonce).ok()?;
+        let mut buffer = ciphertext.to_vec();
+        let plaintext = self.key.open_in_place(nonce, Aad::from(id.as_bytes()), &mut buffer).ok()?;
+        String::from_utf8(plaintext.to_vec()).ok()
+    }
+
+    fn set(&mut self, id: &str, secret: &str) -> Result<(), String> {
+        let mut nonce = [0u8; NONCE_LEN];
+        SystemRandom::new().fill(&mut nonce).map_err(|_| "Failed to generate nonce".to_string())?;
+        let mut buffer = secret.as_bytes().to_vec();
+        self.key
+            .seal_in_place_append_tag(Nonce::assume_unique_for_key(nonce), Aad::from(id.as_bytes()), &mut buffer)
+            .map_err(|_| "Failed to encrypt secret".to_string())?;
+        let mut stored = nonce.to_vec();
+        stored.extend_from_slice(&buffer);
+        self.content.secrets.insert(id.to_string(), to_hex(&stored));
+        self.save()
+    }
+
+    fn delete(&mut self, id: &str) -> Result<(), String> {
+        if self.content.secrets.remove(id).is_some() {
+            self.save()?;
+        }
+        Ok(())
+    }
+}
+
+// 当前的保存方式，设置窗口中显示
+#[derive(Debug, Clone, Copy, PartialEq, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub enum SecretStorage {
+    Keyring,
+    File,
+    Unavailable,
+}
+
+enum Backend {
+    Keyring,
+    File(SecretFile),
+    // 已有 Key 保存在密钥环中但密钥环暂时无法访问：不换成文件，读写都返回错误，已保存的 Key 保持不变
+    Unavailable(String),
+}
+
+pub struct SecretStore {
+    backend: Backend,
+}
+
+// 密钥环能否读写：条目不存在说明服务正常，其他错误（如没有 Secret Service、密钥环未解锁）说明不可用
+fn check_keyring() -> Result<(), String> {
+    match keyring::Entry::new(KEYRING_SERVICE, KEYRING_PROBE).and_then(|entry| entry.get_password()) {
+        Ok(_) | Err(keyring::Error::NoEntry) => Ok(()),
+        Err(e) => Err(e.to_string()),
+    }
+}
+
+fn unavailable_error(reason: &str) -> String {
+    format!("系统密钥环不可用（{}），已保存的 API Key 保持不变，请确认密钥环已解锁后重启", reason)
+}
+
+impl SecretStore {
+    // 选择保存方式：已经有 secrets.bin 时继续使用它；否则使用密钥环，
+    // 密钥环不可用时，如果设置中已有保存在密钥环的 Key（has_stored_keys）就标记为不可用，没有才使用 secrets.bin
+    pub fn open(fallback_path: PathBuf, has_stored_keys: bool) -> Self {
+        let backend = if fallback_path.exists() {
+            Backend::File(SecretFile::load(fallback_path))
+        } else {
+            match check_keyring() {
+                Ok(()) => Backend::Keyring,
+                Err(e) if has_stored_keys => {
+                    eprintln!("System keyring unavailable, keeping stored keys untouched: {}", e);
+                    Backend::Unavailable(e)
+                }
+                Err(e) => {
+                    eprintln!("System keyring unavailable, using secrets.bin: {}", e);
+                    Backend::File(SecretFile::load(fallback_path))
+                }
+            }
+        };
+        Self { backend }
+    }
+
+    pub fn storage(&self) -> SecretStorage {
+        match self.backend {
+            Backend::Keyring => SecretStorage::Keyring,
+            Backend::File(_) => SecretStorage::File,
+            Backend::Unavailable(_) => SecretStorage::Unavailable,
+        }
+    }
+
+    // 读取 Key：确实没有保存时为 Ok(None)，暂时读不到时为错误（调用方不能因此当作没有 Key）
+    pub fn lookup(&self, id: &str) -> Result<Option<String>, String> {
+        match &self.backend {
+            Backend::Keyring => match keyring::Entry::new(KEYRING_SERVICE, id).and_then(|entry| entry.get_password()) {
+                Ok(secret) => Ok(Some(secret)),
+                Err(keyring::Error::NoEntry) => Ok(None),
+                Err(e) => Err(e.to_string()),
+            },
+            Backend::File(file) => file.get(id),
+            Backend::Unavailable(reason) => Err(unavailable_error(reason)),
+        }
+    }
+
+    // 发送请求时使用，读不到时不带 Key
+    pub fn get(&self, id: &str) -> Option<String> {
+        self.lookup(id).unwrap_or_else(|e| {
+            eprintln!("Failed to read secret {}: {}", id, e);
+            None
+        })
+    }
+
+    pub fn set(&mut self, id: &str, secret: &str) -> Result<(), String> {
+        match &mut self.backend {
+            Backend::Keyring => keyring::Entry::new(KEYRING_SERVICE, id)
+                .and_then(|entry| entry.set_password(secret))
+                .map_err(|e| e.to_string()),
+            Backend::File(file) => file.set(id, secret),
+            Backend::Unavailable(reason) => Err(unavailable_error(reason)),
+        }
+    }
+
+    pub fn delete(&mut self, id: &str) -> Result<(), String> {
+        match &mut self.backend {
+            Backend::Keyring => match keyring::Entry::new(KEYRING_SERVICE, id).and_then(|entry| entry.delete_credential()) {
+                Ok(()) | Err(keyring::Error::NoEntry) => Ok(()),
+                Err(e) => Err(e.to_string()),
+            },
+            Backend::File(file) => file.delete(id),
+            Backend::Unavailable(reason) => Err(unavailable_error(reason)),
+        }
+    }
+}
@@ -0,0 +1,111 @@
+// 设置的版本和取值范围，与前端共用 src/settingsSchema.json
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use std::collections::BTreeMap;
+use std::sync::OnceLock;
+
+const SCHEMA_JSON: &str = include_str!("../../src/settingsSchema.json");
+
+// 单个字段的规则
+#[derive(Debug, Deserialize)]
+#[serde(tag = "type", rename_all = "camelCase")]
+enum FieldRule {
+    Number {
+        min: f64,
+        max: f64,
+        #[serde(default)]
+        nullable: bool,
+    },
+    Integer {
+        min: f64,
+        max: f64,
+        #[serde(default)]
+        nullable: bool,
+    },
+    Enum {
+        values: Vec<String>,
+    },
+    #[serde(rename = "string")]
+    Text {
+        #[serde(rename = "minLength", default)]
+        min_length: usize,
+    },
+}
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SettingsSchema {
+    pub version: u32, // 设置文件的当前版本
+    pub secret_placeholder: String, // 已保存的 API Key 在设置中的占位符
+    fields: BTreeMap<String, FieldRule>,
+    profile_fields: BTreeMap<String, FieldRule>, // LLM 服务配置中的字段
+}
+
+// 不符合规则的字段，服务配置中的字段为 llmProfiles.<下标>.<字段>
+#[derive(Debug, Clone, Serialize)]
+pub struct SettingsError {
+    pub field: String,
+    pub message: String,
+}
+
+pub fn schema() -> &'static SettingsSchema {
+    static SCHEMA: OnceLock<SettingsSchema> = OnceLock::new();
+    SCHEMA.get_or_init(|| serde_json::from_str(SCHEMA_JSON).expect("Invalid settingsSchema.json"))
+}
+
+fn check_number(value: &Value, min: f64, max: f64, nullable: bool, integer: bool) -> Result<(), String> {
+    if value.is_null() && nullable {
+        return Ok(());
+    }
+    let Some(number) = value.as_f64() else {
+        return Err("需要填写数字".to_string());
+    };
+    if integer && number.fract() != 0.0 {
+        return Err("需要是整数".to_string());
+    }
+    if number < min || number > max {
+        return Err(format!("需要在 {} ~ {} 之间", min, max));
+    }
+    Ok(())
+}
+
+impl FieldRule {
+    fn check(&self, value: &Value) -> Result<(), String> {
+        match self {
+            FieldRule::Number { min, max, nullable } => check_number(value, *min, *max, *nullable, false),
+            FieldRule::Integer { min, max, nullable } => check_number(value, *min, *max, *nullable, true),
+            FieldRule::Enum { values } => match value.as_str() {
+                Some(text) if values.iter().any(|v| v == text) => Ok(()),
+                _ => Err(format!("只能是 {} 之一", values.join(" / "))),
+            },
+            FieldRule::Text { min_length } => match value.as_str() {
+                Some(text) if text.trim().chars().count() >= *min_length => Ok(()),
+                Some(_) => Err("不能为空".to_string()),
+                None => Err("需要填写文字".to_string()),
+            },
+        }
+    }
+}
+
+fn check_fields(rules: &BTreeMap<String, FieldRule>, object: &Value, prefix: &str, errors: &mut Vec<SettingsError>) {
+    for (field, rule) in rules {
+        if let Some(value) = object.get(field) {
+            if let Err(message) = rule.check(value) {
+                errors.push(SettingsError { field: format!("{}{}", prefix, field), message });
+            }
+        }
+    }
+}
+
+// 检查设置（序列化后的 JSON）中的每个字段，缺少的字段不检查
+pub fn validate(settings: &Value) -> Vec<SettingsError> {
+    let schema = schema();
+    let mut errors = Vec::new();
+    check_fields(&schema.fields, settings, "", &mut errors);
+    if let Some(profiles) = settings.get("llmProfiles").and_then(Value::as_array) {
+        for (index, profile) in profiles.iter().enumerate() {
+            check_fields(&schema.profile_fields, profile, &format!("llmProfiles.{}.", index), &mut errors);
+        }
+    }
+    errors
+}
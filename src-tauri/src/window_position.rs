@@ -0,0 +1,86 @@
+// 窗口位置：按显示器布局分别保存在 window_positions.json，换了显示器组合时不会用到对不上的坐标
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::path::PathBuf;
+use tauri::window::Monitor;
+use tauri::{PhysicalPosition, PhysicalSize};
+
+// 窗口左上角的物理坐标
+#[derive(Debug, Clone, Copy, Serialize, Deserialize)]
+pub struct WindowPosition {
+    pub x: i32,
+    pub y: i32,
+}
+
+pub struct WindowPositionStore {
+    path: PathBuf,
+    positions: HashMap<String, WindowPosition>,
+}
+
+impl WindowPositionStore {
+    // 从文件加载，文件不存在或损坏时为空
+    pub fn load(path: PathBuf) -> Self {
+        let positions = fs::read_to_string(&path)
+            .ok()
+            .and_then(|content| serde_json::from_str(&content).ok())
+            .unwrap_or_default();
+        Self { path, positions }
+    }
+
+    fn save(&self) -> Result<(), String> {
+        let content = serde_json::to_string_pretty(&self.positions).map_err(|e| e.to_string())?;
+        fs::write(&self.path, content).map_err(|e| e.to_string())
+    }
+
+    pub fn get(&self, layout: &str) -> Option<WindowPosition> {
+        self.positions.get(layout).copied()
+    }
+
+    pub fn set(&mut self, layout: String, position: WindowPosition) -> Result<(), String> {
+        self.positions.insert(layout, position);
+        self.save()
+    }
+}
+
+// 显示器布局的标识：每个显示器的位置、分辨率和缩放比例，与顺序无关
+pub fn layout_key(monitors: &[Monitor]) -> String {
+    let mut parts: Vec<String> = monitors
+        .iter()
+        .map(|monitor| {
+            let position = monitor.position();
+            let size = monitor.size();
+            format!("{},{} {}x{} @{}", position.x, position.y, size.width, size.height, monitor.scale_factor())
+        })
+        .collect();
+    parts.sort();
+    parts.join("; ")
+}
+
+// 与窗口重叠面积最大的显示器，完全不重叠时为第一个显示器
+fn monitor_for<'a>(monitors: &'a [Monitor], position: WindowPosition, size: PhysicalSize<u32>) -> Option<&'a Monitor> {
+    let overlap = |monitor: &Monitor| {
+        let origin = monitor.position();
+        let extent = monitor.size();
+        let width = (position.x + size.width as i32).min(origin.x + extent.width as i32) - position.x.max(origin.x);
+        let height = (position.y + size.height as i32).min(origin.y + extent.height as i32) - position.y.max(origin.y);
+        i64::from(width.max(0)) * i64::from(height.max(0))
+    };
+    monitors
+        .iter()
+        .filter(|monitor| overlap(monitor) > 0)
+        .max_by_key(|monitor| overlap(monitor))
+        .or_else(|| monitors.first())
+}
+
+// 把窗口限制在所在的显示器内，窗口比显示器大时对齐左上角
+pub fn clamp_to_monitors(monitors: &[Monitor], position: WindowPosition, size: PhysicalSize<u32>) -> PhysicalPosition<i32> {
+    let Some(monitor) = monitor_for(monitors, position, size) else {
+        return PhysicalPosition::new(position.x, position.y);
+    };
+    let origin = monitor.position();
+    let extent = monitor.size();
+    let max_x = origin.x + (extent.width as i32 - size.width as i32).max(0);
+    let max_y = origin.y + (extent.height as i32 - size.height as i32).max(0);
+    PhysicalPosition::new(position.x.clamp(origin.x, max_x), position.y.clamp(origin.y, max_y))
+}
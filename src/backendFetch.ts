@@ -0,0 +1,120 @@
+import { Channel, invoke } from "@tauri-apps/api/core";
+import schema from "./settingsSchema.json";
+import type { LlmProfile } from "./settingsStore";
+
+// API Key 只保存在 Rust 端（系统密钥环或混淆保存的 secrets.bin），设置中只有占位符。
+// 需要发往服务的请求（LLM、语音识别）交给 Rust 端发送，由 Rust 端按已保存的设置填入 Key 和自定义请求头，
+// 请求地址只能在服务地址之下。语音合成的本地接口一般不返回 CORS 响应头，也由 Rust 端发送。
+
+// 已保存的 API Key 在设置中的占位符
+export const STORED_SECRET: string = schema.secretPlaceholder;
+
+// 语音识别服务的 id（也是它的 Key 的 id）
+export const STT_SECRET_ID = "stt";
+
+// 语音合成的本地 HTTP 接口的 id（不需要 Key，地址为设置中的接口地址）
+export const TTS_SERVICE_ID = "tts";
+
+// LLM 服务配置的 id（也是它的 Key 的 id）
+export function profileSecretId(profileId: string): string {
+  return `llm:${profileId}`;
+}
+
+// 请求发往的服务；设置窗口测试还没保存的配置时带上 profile（其他窗口只能使用已保存的配置）
+export interface ServiceRef {
+  service: string;
+  profile?: LlmProfile;
+}
+
+// Rust 端传回的响应：先是状态码和响应头，然后是响应体的每一块，最后是 done
+type ForwardEvent =
+  | { event: "response"; data: { status: number; headers: [string, string][] } }
+  | { event: "chunk"; data: number[] }
+  | { event: "done" };
+
+// 不能带响应体的状态码
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+let nextRequestId = 1;
+
+// 请求的 id，用于取消
+export function createRequestId(kind: string): string {
+  return `${kind}-${nextRequestId++}`;
+}
+
+// 通知 Rust 端取消请求
+export function cancelRequest(requestId: string) {
+  invoke("cancel_request", { requestId }).catch(console.error);
+}
+
+// 放在 IPC 请求头中的 JSON：请求头只能是 ASCII，其他字符转义为 \uXXXX
+function headerJson(value: unknown): string {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+// 由 Rust 端发送请求的 fetch，请求体以原始字节传给 Rust 端
+export function createBackendFetch(service: ServiceRef) {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const body = new Uint8Array(await request.arrayBuffer());
+    request.signal.throwIfAborted();
+    const requestId = createRequestId("forward");
+
+    return new Promise<Response>((resolve, reject) => {
+      let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+      let finished = false;
+
+      // 请求失败：还没收到响应时拒绝，已经在读取响应体时让读取出错
+      const fail = (error: unknown) => {
+        if (finished) return;
+        finished = true;
+        if (controller) {
+          controller.error(error);
+        } else {
+          reject(error);
+        }
+      };
+
+      const channel = new Channel<ForwardEvent>();
+      channel.onmessage = (message) => {
+        if (finished) return;
+        switch (message.event) {
+          case "response": {
+            const { status, headers } = message.data;
+            const stream = NULL_BODY_STATUSES.includes(status)
+              ? null
+              : new ReadableStream<Uint8Array>({ start: (c) => { controller = c; } });
+            resolve(new Response(stream, { status, headers }));
+            break;
+          }
+          case "chunk":
+            controller?.enqueue(new Uint8Array(message.data));
+            break;
+          case "done":
+            finished = true;
+            controller?.close();
+            break;
+        }
+      };
+
+      // 请求被取消（超时等）时通知 Rust 端中止，不再等待后续数据
+      request.signal.addEventListener("abort", () => {
+        cancelRequest(requestId);
+        fail(request.signal.reason);
+      }, { once: true });
+
+      invoke("forward_request", body, {
+        headers: {
+          "x-forward-service": headerJson(service),
+          "x-forward-request": headerJson({
+            requestId,
+            url: request.url,
+            method: request.method,
+            headers: [...request.headers]
+          }),
+          "x-forward-channel": channel.toJSON()
+        }
+      }).catch((e) => fail(new Error(String(e))));
+    });
+  };
+}
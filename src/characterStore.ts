@@ -0,0 +1,136 @@
+import { invoke, convertFileSrc } from "@tauri-apps/api/core";
+import { DEFAULT_SETTINGS, MOOD_ANIMATIONS } from "./settingsStore";
+import type { TouchRegion } from "./touch";
+
+// 角色包清单（角色包目录中的 manifest.json）
+export interface CharacterManifest {
+  id: string;
+  name: string;
+  skeleton: string;               // .skel 文件名
+  atlas: string;                  // .atlas 文件名，贴图与它放在同一目录
+  idleAnimation: string;          // 待机动画，为空时播放第一个动画
+  defaultMood: string;            // 默认心情
+  sleepyMood: string;             // 犯困时段闲置时的心情，为空时不犯困
+  reminderMood: string;           // 提醒到时间时的心情，为空时使用默认心情
+  moods: Record<string, string>;  // 心情 → 动画名
+  mouthSlot: string;              // 口型插槽，为空时不做口型同步
+  mouthShapes: string[];          // 从闭合到张开排列的嘴型附件
+  touchRegions: TouchRegion[];    // 触摸区域，小区域在前
+  characterSetting: string;       // 角色设定
+  replyFormat: string;            // 回复格式
+}
+
+export interface CharacterPack extends CharacterManifest {
+  builtin: boolean;
+  assetBase: string; // 资源所在目录的地址，末尾带 /
+}
+
+// 内置角色（public/assets 中的阿罗娜）
+export const BUILTIN_CHARACTER: CharacterPack = {
+  id: "arona",
+  name: "阿罗娜",
+  skeleton: "arona_spr.skel",
+  atlas: "arona_spr.atlas",
+  idleAnimation: "Idle_01",
+  defaultMood: "正常",
+  sleepyMood: "困",
+  reminderMood: "干劲十足",
+  moods: MOOD_ANIMATIONS,
+  mouthSlot: "Mouse_01",
+  mouthShapes: ["Mouse_01", "Mouse_04", "Mouse_03"],
+  touchRegions: [
+    {
+      id: "cheek",
+      name: "脸颊",
+      bone: "Nose_01",
+      radius: 0.05,
+      action: "老师戳了戳阿罗娜的脸颊",
+      reactions: {
+        tap: { mood: "又羞又急", lines: ["唔……老师不要戳阿罗娜的脸啦！", "脸、脸会被戳扁的！"] },
+        doubleTap: { mood: "生气", lines: ["老师！再戳阿罗娜就要生气了！"] }
+      }
+    },
+    {
+      id: "halo",
+      name: "光环",
+      bone: "Halo_Root",
+      radius: 0.07,
+      action: "老师碰了碰阿罗娜头上的光环",
+      reactions: {
+        tap: { mood: "惊讶", lines: ["诶？光环是不能随便碰的哦！", "老师对阿罗娜的光环很好奇吗？"] }
+      }
+    },
+    {
+      id: "ribbon",
+      name: "发带",
+      bone: "T_Ribborn_Original",
+      radius: 0.06,
+      action: "老师拉了拉阿罗娜的发带",
+      reactions: {
+        tap: { mood: "不淡定", lines: ["发带要被拉歪了啦！", "老师，请不要玩阿罗娜的发带！"] }
+      }
+    },
+    {
+      id: "head",
+      name: "头",
+      bone: "Head_Rot",
+      radius: 0.14,
+      action: "老师摸了摸阿罗娜的头",
+      reactions: {
+        tap: { mood: "有点开心", lines: ["嗯？老师找阿罗娜有事吗？"] },
+        longPress: { mood: "害羞", lines: ["诶嘿嘿……被老师摸头了……", "老、老师……阿罗娜会害羞的……"] }
+      }
+    },
+    {
+      id: "body",
+      name: "身体",
+      bone: "Troso",
+      radius: 0.2,
+      action: "老师咯吱咯吱地挠阿罗娜痒痒",
+      reactions: {
+        tap: { mood: "惊讶", lines: ["呀！老师？"] },
+        doubleTap: { mood: "开心", lines: ["哈哈哈哈！老师挠痒痒是犯规的！", "咯吱咯吱什么的……哈哈……不行啦！"] }
+      }
+    }
+  ],
+  characterSetting: DEFAULT_SETTINGS.characterSetting,
+  replyFormat: DEFAULT_SETTINGS.replyFormat,
+  builtin: true,
+  assetBase: "/assets/"
+};
+
+// 导入的角色包通过 character:// 协议读取
+function toCharacterPack(manifest: CharacterManifest): CharacterPack {
+  return {
+    ...manifest,
+    replyFormat: manifest.replyFormat || DEFAULT_SETTINGS.replyFormat,
+    builtin: false,
+    assetBase: `${convertFileSrc(manifest.id, "character")}/`
+  };
+}
+
+// 所有可用角色，内置角色在最前
+export async function listCharacters(): Promise<CharacterPack[]> {
+  try {
+    const manifests = await invoke<CharacterManifest[]>("get_character_packs");
+    return [BUILTIN_CHARACTER, ...manifests.map(toCharacterPack)];
+  } catch (e) {
+    console.error("Failed to load character packs:", e);
+    return [BUILTIN_CHARACTER];
+  }
+}
+
+// 按 id 查找角色，找不到时使用内置角色
+export async function getCharacter(id: string): Promise<CharacterPack> {
+  const characters = await listCharacters();
+  return characters.find(c => c.id === id) ?? BUILTIN_CHARACTER;
+}
+
+// 从目录或 zip 文件导入角色包
+export async function importCharacterPack(path: string): Promise<CharacterPack> {
+  return toCharacterPack(await invoke<CharacterManifest>("import_character_pack", { path }));
+}
+
+export async function deleteCharacterPack(id: string): Promise<void> {
+  await invoke("delete_character_pack", { id });
+}
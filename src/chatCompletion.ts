@@ -0,0 +1,92 @@
+import { Channel, invoke } from "@tauri-apps/api/core";
+import type OpenAI from "openai";
+import { cancelRequest, createRequestId, type ServiceRef } from "./backendFetch";
+
+// 对话请求由 Rust 端发送（代理、自定义请求头、超时都在 Rust 端处理），流式回复逐块传回；
+// 传入的 signal 中止时通知 Rust 端取消请求（停止生成）
+
+type ChatCompletionParams = Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, "stream">;
+
+// Rust 端传回的流式回复
+type ChatEvent =
+  | { event: "chunk"; data: OpenAI.Chat.Completions.ChatCompletionChunk }
+  | { event: "done" };
+
+// signal 中止时拒绝，不等 Rust 端结束
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+  });
+}
+
+// 发送请求，返回 Rust 端的结果（非流式时为完整的回复）
+async function runChatRequest(
+  service: ServiceRef,
+  body: object,
+  channel: Channel<ChatEvent>,
+  signal?: AbortSignal
+): Promise<unknown> {
+  signal?.throwIfAborted();
+  const requestId = createRequestId("chat");
+  const cancel = () => cancelRequest(requestId);
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  const request = invoke("chat_completion", { request: { requestId, service, body }, onEvent: channel })
+    .catch((e) => {
+      throw signal?.aborted ? signal.reason : new Error(String(e));
+    })
+    .finally(() => signal?.removeEventListener("abort", cancel));
+  return signal ? Promise.race([request, whenAborted(signal)]) : request;
+}
+
+// 一次性请求完整回复
+export async function createChatCompletion(
+  service: ServiceRef,
+  params: ChatCompletionParams,
+  signal?: AbortSignal
+): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+  const channel = new Channel<ChatEvent>();
+  return await runChatRequest(service, { ...params, stream: false }, channel, signal) as OpenAI.Chat.Completions.ChatCompletion;
+}
+
+// 流式请求回复，逐块返回 ChatCompletionChunk
+export async function* streamChatCompletion(
+  service: ServiceRef,
+  params: ChatCompletionParams,
+  signal?: AbortSignal
+): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
+  const chunks: OpenAI.Chat.Completions.ChatCompletionChunk[] = [];
+  let finished = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const channel = new Channel<ChatEvent>();
+  channel.onmessage = (message) => {
+    if (message.event === "chunk") {
+      chunks.push(message.data);
+    } else {
+      finished = true;
+    }
+    notify();
+  };
+  runChatRequest(service, { ...params, stream: true }, channel, signal).catch((e) => {
+    failure = e ?? new Error("请求失败");
+    finished = true;
+    notify();
+  });
+
+  while (true) {
+    const chunk = chunks.shift();
+    if (chunk) {
+      yield chunk;
+      continue;
+    }
+    if (failure) throw failure;
+    if (finished) return;
+    await new Promise<void>(resolve => { wake = resolve; });
+  }
+}
@@ -0,0 +1,190 @@
+import { invoke } from "@tauri-apps/api/core";
+import { getSessionDisplayName, type SessionMeta, type StoredMessage } from "./historyStore";
+
+// 对话记录的导出和导入
+// markdown：方便阅读，带心情和日文
+// json：完整记录（原始回复、心情、日文、时间），可以再导入
+// jsonl：SillyTavern 的聊天记录格式，第一行为元信息，之后每行一条消息，可以再导入
+
+export type ExportFormat = "markdown" | "json" | "jsonl";
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  jsonl: "jsonl"
+};
+
+const JSON_EXPORT_FORMAT = "arona-ai-pet-chat";
+const JSON_EXPORT_VERSION = 1;
+const USER_NAME = "老师";
+
+// 导出的 JSON 文件
+interface ChatExport {
+  format: typeof JSON_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  character: string;
+  session: { name: string; createdAt: number; summary: string };
+  messages: StoredMessage[];
+}
+
+// SillyTavern 聊天记录中的一行消息，extra 中保存本应用的字段
+interface TavernMessage {
+  name: string;
+  is_user: boolean;
+  is_system?: boolean;
+  send_date: string | number;
+  mes: string;
+  extra?: Partial<Pick<StoredMessage, "timestamp" | "provider" | "raw" | "mood" | "japanese">>;
+}
+
+// 导入得到的会话
+export interface ImportedChat {
+  name: string;
+  messages: StoredMessage[];
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function toMarkdown(session: SessionMeta, messages: StoredMessage[], characterName: string): string {
+  const lines = [`# ${getSessionDisplayName(session)}`, "", `> ${characterName} · 导出于 ${formatTime(Date.now())}`];
+  if (session.summary) {
+    lines.push(">", `> 早期对话摘要：${session.summary}`);
+  }
+
+  for (const message of messages) {
+    const speaker = message.role === "user" ? USER_NAME : characterName;
+    const mood = message.mood ? `（${message.mood}）` : "";
+    lines.push("", `**${speaker}**${mood} · ${formatTime(message.timestamp)}`, "", message.content);
+    if (message.japanese) {
+      lines.push("", `> ${message.japanese}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function toJson(session: SessionMeta, messages: StoredMessage[], characterName: string): string {
+  const data: ChatExport = {
+    format: JSON_EXPORT_FORMAT,
+    version: JSON_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    character: characterName,
+    session: { name: getSessionDisplayName(session), createdAt: session.createdAt, summary: session.summary },
+    messages
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function toJsonl(session: SessionMeta, messages: StoredMessage[], characterName: string): string {
+  const header = {
+    user_name: USER_NAME,
+    character_name: characterName,
+    create_date: new Date(session.createdAt).toISOString(),
+    chat_metadata: { name: getSessionDisplayName(session) }
+  };
+  const rows = messages.map((message): TavernMessage => ({
+    name: message.role === "user" ? USER_NAME : characterName,
+    is_user: message.role === "user",
+    is_system: false,
+    send_date: new Date(message.timestamp).toISOString(),
+    mes: message.content,
+    extra: {
+      timestamp: message.timestamp,
+      provider: message.provider,
+      raw: message.raw,
+      mood: message.mood,
+      japanese: message.japanese
+    }
+  }));
+  return [header, ...rows].map(row => JSON.stringify(row)).join("\n") + "\n";
+}
+
+export function exportChat(
+  session: SessionMeta,
+  messages: StoredMessage[],
+  characterName: string,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "markdown": return toMarkdown(session, messages, characterName);
+    case "json": return toJson(session, messages, characterName);
+    case "jsonl": return toJsonl(session, messages, characterName);
+  }
+}
+
+// 只保留 StoredMessage 中的字段，缺失的时间按顺序补上
+function normalizeMessage(message: Partial<StoredMessage>, fallbackTime: number): StoredMessage | null {
+  if ((message.role !== "user" && message.role !== "assistant") || typeof message.content !== "string") {
+    return null;
+  }
+  const optional = (value: unknown) => typeof value === "string" && value !== "" ? value : undefined;
+  return {
+    role: message.role,
+    content: message.content,
+    timestamp: typeof message.timestamp === "number" ? message.timestamp : fallbackTime,
+    provider: optional(message.provider),
+    raw: optional(message.raw),
+    mood: optional(message.mood),
+    japanese: optional(message.japanese)
+  };
+}
+
+function parseJsonExport(content: string): ImportedChat {
+  const data = JSON.parse(content) as Partial<ChatExport>;
+  if (data.format !== JSON_EXPORT_FORMAT || !Array.isArray(data.messages)) {
+    throw new Error("不是本应用导出的对话记录");
+  }
+  const now = Date.now();
+  return {
+    name: data.session?.name ?? "",
+    messages: data.messages
+      .map((message, index) => normalizeMessage(message, now + index))
+      .filter((message): message is StoredMessage => message !== null)
+  };
+}
+
+function parseJsonl(content: string): ImportedChat {
+  const rows = content.split(/\r?\n/).filter(line => line.trim() !== "").map(line => JSON.parse(line));
+  const header = rows[0] && !("mes" in rows[0]) ? rows.shift() : undefined;
+  const now = Date.now();
+
+  const messages = (rows as TavernMessage[])
+    .filter(row => typeof row.mes === "string" && !row.is_system)
+    .map((row, index) => {
+      const sendDate = typeof row.send_date === "number" ? row.send_date : Date.parse(row.send_date);
+      return normalizeMessage({
+        ...row.extra,
+        role: row.is_user ? "user" : "assistant",
+        content: row.mes,
+        timestamp: row.extra?.timestamp ?? (Number.isNaN(sendDate) ? undefined : sendDate)
+      }, now + index);
+    })
+    .filter((message): message is StoredMessage => message !== null);
+
+  return { name: header?.chat_metadata?.name ?? header?.character_name ?? "", messages };
+}
+
+// 按扩展名解析导入的文件
+export function parseImportedChat(content: string, path: string): ImportedChat {
+  const imported = path.toLowerCase().endsWith(".jsonl") ? parseJsonl(content) : parseJsonExport(content);
+  if (imported.messages.length === 0) {
+    throw new Error("文件中没有对话消息");
+  }
+  return imported;
+}
+
+// 文件对话框由 Rust 端打开，前端拿不到也不能指定读写的路径
+
+// 选择保存位置并写入导出的内容，取消时返回 false
+export async function saveChatExport(defaultName: string, filterName: string, extension: string, content: string): Promise<boolean> {
+  return invoke<boolean>("export_chat_file", { defaultName, filterName, extension, content });
+}
+
+// 选择并读取要导入的对话文件，取消时返回 null
+export async function openChatImport(): Promise<{ path: string; content: string } | null> {
+  return invoke<{ path: string; content: string } | null>("import_chat_file");
+}
@@ -0,0 +1,90 @@
+import { invoke } from "@tauri-apps/api/core";
+
+// 持久化的单条消息，content 为显示的文本（助手消息为中文），其余字段只有助手消息有
+export interface StoredMessage {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: number; // 毫秒时间戳
+  provider?: string; // 回答的 LLM 服务名称
+  raw?: string;      // LLM 的原始回复
+  mood?: string;
+  japanese?: string;
+}
+
+// 会话元信息
+export interface SessionMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  summary: string; // 已移出上下文的早期对话摘要
+}
+
+// 会话列表（最近更新的在前）
+export interface SessionList {
+  activeSessionId: string | null;
+  sessions: SessionMeta[];
+}
+
+// 分页读取结果
+export interface MessagePage {
+  messages: StoredMessage[];
+  start: number; // 本页第一条消息在会话中的下标
+  total: number;
+}
+
+// 未命名会话的显示名
+export function getSessionDisplayName(session: SessionMeta): string {
+  return session.name || "新对话";
+}
+
+export async function listSessions(): Promise<SessionList> {
+  return invoke<SessionList>("get_chat_sessions");
+}
+
+export async function createSession(name?: string): Promise<SessionMeta> {
+  return invoke<SessionMeta>("create_chat_session", { name });
+}
+
+export async function switchSession(sessionId: string): Promise<void> {
+  await invoke("switch_chat_session", { sessionId });
+}
+
+export async function renameSession(sessionId: string, name: string): Promise<void> {
+  await invoke("rename_chat_session", { sessionId, name });
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await invoke("delete_chat_session", { sessionId });
+}
+
+export async function setSessionSummary(sessionId: string, summary: string): Promise<void> {
+  await invoke("set_chat_session_summary", { sessionId, summary });
+}
+
+// 追加消息，失败只记录日志，不影响对话
+export async function appendMessages(sessionId: string, messages: StoredMessage[]): Promise<SessionMeta | null> {
+  try {
+    return await invoke<SessionMeta>("append_chat_messages", { sessionId, messages });
+  } catch (e) {
+    console.error("Failed to append chat messages:", e);
+    return null;
+  }
+}
+
+// 导入对话记录为新的会话，并切换为当前会话
+export async function importSession(name: string, messages: StoredMessage[]): Promise<SessionMeta> {
+  return invoke<SessionMeta>("import_chat_session", { name, messages });
+}
+
+// 读取会话的全部消息
+export async function getAllMessages(session: SessionMeta): Promise<StoredMessage[]> {
+  const page = await getMessages(session.id, session.messageCount);
+  return page.messages;
+}
+
+// 读取 end 之前的 limit 条消息，end 为空时读取最新的消息
+export async function getMessages(sessionId: string, limit: number, end?: number): Promise<MessagePage> {
+  return invoke<MessagePage>("get_chat_messages", { sessionId, end, limit });
+}
@@ -0,0 +1,91 @@
+import { invoke } from "@tauri-apps/api/core";
+import type { Settings } from "./settingsStore";
+
+// 全局快捷键，由 Rust 端注册；显示/隐藏角色在 Rust 端处理，其余的通过 hotkey-pressed 事件交给主窗口
+// 按住说话的按键（sttHotkey）也注册为全局快捷键，按下和松开通过 push-to-talk 事件通知主窗口
+
+export type HotkeyField = "hotkeyTogglePet" | "hotkeyOpenChat" | "hotkeyRepeatLast";
+
+export const HOTKEY_FIELDS: HotkeyField[] = ["hotkeyTogglePet", "hotkeyOpenChat", "hotkeyRepeatLast"];
+
+export const HOTKEY_LABELS: Record<HotkeyField, string> = {
+  hotkeyTogglePet: "显示/隐藏角色",
+  hotkeyOpenChat: "打开对话框",
+  hotkeyRepeatLast: "重复最后一句"
+};
+
+// 快捷键冲突和注册失败时显示错误的字段
+export type HotkeyErrorField = HotkeyField | "sttHotkey";
+
+// 注册失败的快捷键
+export interface HotkeyError {
+  field: HotkeyErrorField;
+  shortcut: string;
+  message: string;
+}
+
+// 修饰键在快捷键字符串中的名称和顺序
+const MODIFIER_KEYS = ["Control", "Alt", "Shift", "Super"];
+const MODIFIER_CODES = /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/;
+
+// 由按键事件生成快捷键字符串（如 Alt+Shift+P），只按了修饰键时返回 null
+export function formatHotkey(e: KeyboardEvent): string | null {
+  if (MODIFIER_CODES.test(e.code)) return null;
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Control");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey) parts.push("Shift");
+  if (e.metaKey) parts.push("Super");
+  parts.push(e.code.replace(/^(Key|Digit)/, ""));
+  return parts.join("+");
+}
+
+// 统一大小写和修饰键顺序，用于比较
+function normalizeHotkey(hotkey: string): string {
+  const parts = hotkey.split("+").map(part => part.trim()).filter(part => part !== "");
+  const modifiers = MODIFIER_KEYS.filter(modifier => parts.includes(modifier));
+  const keys = parts.filter(part => !MODIFIER_KEYS.includes(part));
+  return [...modifiers, ...keys].join("+").toLowerCase();
+}
+
+// 单个普通按键会占用正常输入，需要搭配修饰键（F1–F24 除外）
+function needsModifier(hotkey: string): boolean {
+  return !hotkey.includes("+") && !/^f\d+$/.test(hotkey);
+}
+
+// 检查快捷键之间的冲突（包括按住说话的按键），返回有冲突的字段和说明
+export function findHotkeyConflicts(
+  settings: Pick<Settings, HotkeyField | "sttEnabled" | "sttHotkey">
+): Partial<Record<HotkeyErrorField, string>> {
+  const conflicts: Partial<Record<HotkeyErrorField, string>> = {};
+  const sttHotkey = settings.sttEnabled ? normalizeHotkey(settings.sttHotkey.replace(/^(Key|Digit)/, "")) : "";
+  if (sttHotkey && needsModifier(sttHotkey)) {
+    conflicts.sttHotkey = "需要搭配 Ctrl、Alt、Shift 等修饰键，或使用 F1–F24";
+  }
+
+  HOTKEY_FIELDS.forEach((field, index) => {
+    const hotkey = normalizeHotkey(settings[field]);
+    if (!hotkey) return;
+
+    const other = HOTKEY_FIELDS.slice(0, index).find(f => normalizeHotkey(settings[f]) === hotkey);
+    if (other) {
+      conflicts[field] = `与「${HOTKEY_LABELS[other]}」相同`;
+    } else if (hotkey === sttHotkey) {
+      conflicts[field] = "与按住说话按键相同";
+    } else if (needsModifier(hotkey)) {
+      conflicts[field] = "需要搭配 Ctrl、Alt、Shift 等修饰键";
+    }
+  });
+  return conflicts;
+}
+
+// 注册失败的快捷键（保存设置后由 Rust 端重新注册）
+export async function getHotkeyErrors(): Promise<HotkeyError[]> {
+  try {
+    return await invoke<HotkeyError[]>("get_hotkey_errors");
+  } catch (e) {
+    console.error("Failed to get hotkey errors:", e);
+    return [];
+  }
+}
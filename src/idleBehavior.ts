@@ -0,0 +1,36 @@
+// 闲置行为：老师一段时间没有互动时主动搭话，午间和深夜犯困，心情长时间没有更新时恢复正常
+
+// 犯困的时段（小时，左闭右开）：午休和深夜
+const SLEEPY_HOURS: Array<[number, number]> = [
+  [12, 14],
+  [23, 24],
+  [0, 5]
+];
+
+const WEEKDAYS = ["日", "一", "二", "三", "四", "五", "六"];
+
+// 是否处于安静时段（不主动说话），支持跨午夜，如 23 ~ 8
+export function isInQuietHours(date: Date, start: number, end: number): boolean {
+  if (start === end) return false;
+  const hour = date.getHours();
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+// 是否是容易犯困的时间
+export function isSleepyTime(date: Date): boolean {
+  const hour = date.getHours();
+  return SLEEPY_HOURS.some(([start, end]) => hour >= start && hour < end);
+}
+
+// 当前日期和时间的描述，如 2026年10月19日 星期一 14:05
+export function formatDateTime(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日 星期${WEEKDAYS[date.getDay()]} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// 主动搭话时发给 LLM 的提示（不显示在对话中）
+export function buildProactivePrompt(date: Date, idleMinutes: number): string {
+  return `（现在是 ${formatDateTime(date)}。老师已经 ${idleMinutes} 分钟没有和你说话了，请结合现在的时间主动找老师聊天，例如关心老师的作息、提醒休息或者分享一件小事。不要提到这条说明。）`;
+}
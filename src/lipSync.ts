@@ -0,0 +1,43 @@
+import * as spine from "@esotericsoftware/spine-webgl";
+
+// 每个嘴型在口型动画中占用的时长（秒）
+const SHAPE_DURATION = 1;
+
+// 音量低于此值时视为闭嘴
+const SILENCE_LEVEL = 0.08;
+
+// 构建口型动画：每秒切换一个嘴型，播放时不推进时间，而是按音量直接设置 trackTime
+// 嘴型附件从闭合到张开排列，由角色包指定；骨骼中没有对应插槽或附件时返回 null
+export function buildMouthAnimation(skeletonData: spine.SkeletonData, slotName: string, shapes: string[]): spine.Animation | null {
+  if (!slotName || shapes.length < 2) {
+    return null;
+  }
+
+  const slot = skeletonData.findSlot(slotName);
+  if (!slot) {
+    console.warn(`Lip sync disabled: slot ${slotName} not found`);
+    return null;
+  }
+
+  const skin = skeletonData.defaultSkin;
+  const missing = shapes.filter(name => !skin?.getAttachment(slot.index, name));
+  if (missing.length > 0) {
+    console.warn("Lip sync disabled: mouth attachments not found:", missing);
+    return null;
+  }
+
+  const timeline = new spine.AttachmentTimeline(shapes.length, slot.index);
+  shapes.forEach((name, i) => {
+    timeline.setFrame(i, i * SHAPE_DURATION, name);
+  });
+
+  return new spine.Animation("lip_sync", [timeline], shapes.length * SHAPE_DURATION);
+}
+
+// 把音量（0 ~ 1）换算成口型动画中的时间
+export function mouthTimeForLevel(animation: spine.Animation, level: number): number {
+  if (level < SILENCE_LEVEL) return 0;
+  const shapeCount = Math.round(animation.duration / SHAPE_DURATION);
+  const index = Math.min(shapeCount - 1, 1 + Math.floor(level * (shapeCount - 1)));
+  return index * SHAPE_DURATION;
+}
@@ -0,0 +1,118 @@
+import OpenAI from "openai";
+import type { LlmProfile } from "./settingsStore";
+import { createBackendFetch, profileSecretId, type ServiceRef } from "./backendFetch";
+import { createChatCompletion } from "./chatCompletion";
+import { parseReplyWithMode, buildReplySchema, type ParsedReply, type ReplyMode } from "./replyParser";
+
+// Key 由 Rust 端填入，SDK 要求非空所以填占位值
+const PLACEHOLDER_API_KEY = "not-needed";
+
+const MODEL_LIST_TIMEOUT = 10 * 1000;
+const CONNECTION_TEST_TIMEOUT = 60 * 1000; // 本地模型首次加载可能较慢
+const CONNECTION_TEST_MESSAGE = "老师来了，打个招呼吧";
+
+// 连接测试的结果
+export interface ConnectionTestResult {
+  latencyMs: number;    // 从发出请求到收到完整回复的时间
+  raw: string;          // 原始回复
+  parsed: ParsedReply;
+  formatValid: boolean; // 是否解析出了可用的心情和中文
+  replyMode: ReplyMode; // 实际使用的回复格式模式（不支持结构化输出时为 pipe）
+}
+
+// 配置是否可用：本地服务不需要 Key
+export function isProfileUsable(profile: LlmProfile): boolean {
+  return profile.local || profile.apiKey !== "";
+}
+
+// 已保存的服务配置，地址、Key 和自定义请求头由 Rust 端按保存的设置填入
+export function savedProfileService(profile: LlmProfile): ServiceRef {
+  return { service: profileSecretId(profile.id) };
+}
+
+// 设置窗口中的服务配置（可能还没保存），新填写的 Key 随配置一起交给 Rust 端
+function formProfileService(profile: LlmProfile): ServiceRef {
+  return { service: profileSecretId(profile.id), profile };
+}
+
+// 通过 Rust 端发送请求的 OpenAI 客户端（模型列表、语音识别）
+export function createServiceClient(service: ServiceRef, baseURL: string): OpenAI {
+  return new OpenAI({
+    apiKey: PLACEHOLDER_API_KEY,
+    baseURL,
+    fetch: createBackendFetch(service),
+    dangerouslyAllowBrowser: true // 在浏览器环境中使用
+  });
+}
+
+// 结构化输出模式下的 response_format，心情限定为当前角色的心情名称
+export function buildResponseFormat(replyMode: ReplyMode, moods: string[]) {
+  if (replyMode !== "json") return undefined;
+  return {
+    type: "json_schema" as const,
+    json_schema: {
+      name: "arona_reply",
+      strict: true,
+      schema: buildReplySchema(moods)
+    }
+  };
+}
+
+// 服务拒绝了 response_format（很多 OpenAI 兼容服务和本地服务不支持结构化输出，返回 400）
+export function isResponseFormatRejected(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.startsWith("HTTP 400") && /response_format|json_schema/i.test(message);
+}
+
+// 查询服务提供的模型（GET /models）
+export async function listModels(profile: LlmProfile): Promise<string[]> {
+  const client = createServiceClient(formProfileService(profile), profile.baseUrl);
+  const models: string[] = [];
+  for await (const model of client.models.list({ timeout: MODEL_LIST_TIMEOUT, maxRetries: 0 })) {
+    models.push(model.id);
+  }
+  return models.sort((a, b) => a.localeCompare(b));
+}
+
+// 用当前的系统提示词发一条消息，测量延迟并检查回复能否按心情格式解析
+// 和对话使用同样的请求方式（代理、自定义请求头）；服务拒绝 response_format 时和对话一样改用 | 分隔格式
+export async function testConnection(
+  profile: LlmProfile,
+  systemPrompt: (replyMode: ReplyMode) => string,
+  replyMode: ReplyMode,
+  moods: string[]
+): Promise<ConnectionTestResult> {
+  const request = (mode: ReplyMode) => createChatCompletion(formProfileService(profile), {
+    model: profile.model,
+    messages: [
+      { role: "system", content: systemPrompt(mode) },
+      { role: "user", content: CONNECTION_TEST_MESSAGE }
+    ],
+    temperature: profile.temperature ?? undefined,
+    max_tokens: profile.maxTokens ?? undefined,
+    response_format: buildResponseFormat(mode, moods),
+  }, AbortSignal.timeout(CONNECTION_TEST_TIMEOUT));
+
+  let usedMode = replyMode;
+  let startedAt = performance.now();
+  let completion: OpenAI.Chat.Completions.ChatCompletion;
+  try {
+    completion = await request(usedMode);
+  } catch (e) {
+    if (usedMode !== "json" || !isResponseFormatRejected(e)) throw e;
+    usedMode = "pipe";
+    startedAt = performance.now();
+    completion = await request(usedMode);
+  }
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  const raw = completion.choices[0]?.message?.content ?? "";
+  const parsed = parseReplyWithMode(raw, usedMode);
+  return {
+    latencyMs,
+    raw,
+    parsed,
+    formatValid: moods.includes(parsed.mood) && parsed.chinese !== "",
+    replyMode: usedMode
+  };
+}
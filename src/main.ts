@@ -1,13 +1,79 @@
 import * as spine from "@esotericsoftware/spine-webgl";
-import { getCurrentWindow, LogicalSize, availableMonitors } from "@tauri-apps/api/window";
+import { getCurrentWindow, LogicalSize, availableMonitors, currentMonitor } from "@tauri-apps/api/window";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
-import OpenAI from "openai";
-import { loadSettings, setCachedSettings, generateSystemPrompt, MOOD_ANIMATIONS, type Settings } from "./settingsStore";
+import { writeText } from "@tauri-apps/plugin-clipboard-manager";
+import type OpenAI from "openai";
+import {
+  loadSettings,
+  loadSettingsSync,
+  saveSettings,
+  setCachedSettings,
+  generateSystemPrompt,
+  getActiveProfile,
+  getProfileFailoverOrder,
+  onSettingsChanged,
+  promptUsesVariable,
+  startSettingsSync,
+  type ActionDisplay,
+  type BubbleLanguage,
+  type LlmProfile,
+  type Settings
+} from "./settingsStore";
+import {
+  parseReplyWithMode,
+  parsePartialReply,
+  parsePartialStructuredReply,
+  formatReplyForDisplay,
+  extractActions,
+  stripActions,
+  findActionMood,
+  type ReplyMode
+} from "./replyParser";
+import { renderMarkdown } from "./markdown";
+import {
+  listSessions,
+  createSession,
+  switchSession,
+  renameSession,
+  deleteSession,
+  appendMessages,
+  getMessages,
+  getSessionDisplayName,
+  setSessionSummary,
+  type SessionMeta,
+  type StoredMessage
+} from "./historyStore";
+import {
+  getMemoryFacts,
+  addMemoryFacts,
+  summarizeConversation,
+  type MemoryFact,
+  type MemoryUpdate,
+  type PromptMemory
+} from "./memoryStore";
+import { createTtsBackend, type TtsBackend, type TtsPlayback } from "./tts";
+import { buildMouthAnimation, mouthTimeForLevel } from "./lipSync";
+import { startRecording, transcribe, MIN_RECORDING_MS, type Recording } from "./voiceInput";
+import { BUILTIN_CHARACTER, getCharacter, type CharacterPack } from "./characterStore";
+import { findTouchRegion, pickReactionLine, type TouchGesture, type TouchRegion } from "./touch";
+import { buildProactivePrompt, isInQuietHours, isSleepyTime } from "./idleBehavior";
+import type { Reminder } from "./reminderStore";
+import { getToolDefinitions, executeToolCall } from "./tools";
+import {
+  createServiceClient,
+  savedProfileService,
+  isProfileUsable,
+  buildResponseFormat,
+  isResponseFormatRejected
+} from "./llmClient";
+import { STT_SECRET_ID } from "./backendFetch";
+import { createChatCompletion, streamChatCompletion } from "./chatCompletion";
+import type { HotkeyField } from "./hotkeys";
+import { getActiveWindowTitle, setActiveWindowTracking } from "./promptTemplate";
 
-// 配置（从设置加载，这里是默认值）
-const SKELETON_PATH = "assets/arona_spr"; // 不带扩展名
-const DEFAULT_ANIMATION = "Idle_01"; // 默认动画名，根据实际情况修改
+// 当前角色包（骨骼资源、待机动画、心情映射）
+let activeCharacter: CharacterPack = BUILTIN_CHARACTER;
 
 // 可配置参数（从设置加载）
 let FPS_LIMIT = 30;
@@ -18,99 +84,99 @@ let CHAT_BOX_HEIGHT = 100;
 let CURSOR_CHECK_INTERVAL = 30;
 let DRAG_W_RATIO = 0.4;
 let DRAG_H_RATIO = 0.9;
+let PIXEL_HIT_TEST = true;
+let TOUCH_LLM_REACTIONS = false; // 触摸反应的台词由 LLM 生成
 
 // 窗口最小宽度（防止消息框被挤压）
 const MIN_WINDOW_WIDTH = 320;
 
+// 窗口停止移动多久后保存位置并检查所在的显示器
+const WINDOW_MOVE_SETTLE_MS = 500;
+
 // LLM 配置（从设置加载）
 let LLM_CONFIG = {
-  apiKey: "",
+  apiKey: "",       // 当前配置的地址、Key 和模型（语音识别没有单独的地址时使用它的地址）
   baseURL: "https://api.openai.com/v1",
   model: "gpt-4o-mini",
-  systemPrompt: ""  // 由 generateSystemPrompt 生成
+  profiles: [] as LlmProfile[], // 按请求顺序排列，当前配置在前，其余作为备用
+  stream: true,     // 是否流式输出
+  replyMode: "pipe" as Settings["replyMode"], // 回复格式模式
+  memoryEnabled: true, // 是否启用长期记忆
+  toolsEnabled: true,  // 是否允许 LLM 调用工具（如创建提醒）
+  systemPrompt: "",  // 由 generateSystemPrompt 生成
+  pipeSystemPrompt: "" // 服务不支持结构化输出时使用的 | 分隔格式的系统提示
 };
 
+// 语音识别配置（从设置加载，地址和 Key 为空时使用 LLM 的配置）
+let STT_CONFIG = {
+  enabled: false,
+  apiKey: "",
+  baseURL: "",
+  model: "whisper-1",
+  language: "zh",
+  mouseHold: true
+};
+
+// 点击角色的判定：移动超过阈值为拖动窗口，按住超过时长为长按（摸头或说话），否则为点击
+const LONG_PRESS_MS = 500;  // 按住超过此时长视为长按
+const DRAG_THRESHOLD = 4;   // 按下后移动超过此距离（像素）视为拖动窗口
+const DOUBLE_TAP_MS = 300;  // 两次点击间隔小于此时长视为双击
+const REACTION_BUBBLE_MS = 3000; // 触摸反应台词的显示时长
+const REMINDER_BUBBLE_MS = 15000; // 提醒的显示时长
+
+// 不能点击穿透时（Wayland）窗口的输入区域
+const INPUT_REGION_INTERVAL = 200; // 更新间隔（毫秒）
+const INPUT_REGION_GRID = 16;      // 矩形按此粒度（像素）向外取整
+
 // LLM 重试配置
 const LLM_MAX_RETRIES = 3;
 const LLM_RETRY_DELAY = 1000; // 重试间隔（毫秒）
+const MAX_TOOL_ROUNDS = 3;    // 一次回复中最多连续调用工具的轮数
+const TOOL_CONFIRM_TIMEOUT_MS = 60 * 1000; // 工具确认的等待时间
 
-// 解析 LLM 回复格式: {心情} | 中文回复 | 日文回复
-// 并清理中括号内容（包括中括号本身）
-interface ParsedReply {
-  mood: string;
-  chinese: string;
-  japanese: string;
-}
-
-function parseReply(rawReply: string): ParsedReply {
-  // 清理中括号及其内容的函数（支持中英文中括号）
-  const cleanBrackets = (text: string): string => {
-    return text
-      .replace(/\[[^\]]*\]/g, '')  // 英文中括号 [...]
-      .replace(/【[^】]*】/g, '')   // 中文中括号 【...】
-      .replace(/\s+/g, ' ')        // 多个空格合并为一个
-      .trim();
-  };
-  
-  // 尝试按 | 分割
-  const parts = rawReply.split('|').map(p => p.trim());
-  
-  if (parts.length >= 3) {
-    // 标准格式: {心情} | 中文回复 | 日文回复
-    return {
-      mood: parts[0].replace(/[{}]/g, '').trim(),
-      chinese: cleanBrackets(parts[1]),
-      japanese: cleanBrackets(parts[2])
-    };
-  } else if (parts.length === 2) {
-    // 两部分: 可能是 {心情} | 回复 或 中文 | 日文
-    const first = parts[0];
-    if (first.startsWith('{') || first.startsWith('（') || first.startsWith('(')) {
-      return {
-        mood: first.replace(/[{}（）()]/g, '').trim(),
-        chinese: cleanBrackets(parts[1]),
-        japanese: ''
-      };
-    } else {
-      return {
-        mood: '',
-        chinese: cleanBrackets(parts[0]),
-        japanese: cleanBrackets(parts[1])
-      };
-    }
-  } else {
-    // 单独的回复，没有分隔符
-    return {
-      mood: '',
-      chinese: cleanBrackets(rawReply),
-      japanese: ''
-    };
-  }
-}
+// 对话上下文配置
+const CONTEXT_MESSAGE_LIMIT = 20; // 发送给 LLM 的最近消息数（10 轮对话）
+const HISTORY_PAGE_SIZE = 20;     // 历史记录每次向前加载的条数
 
-// 格式化显示回复
-function formatReplyForDisplay(parsed: ParsedReply): string {
-  let result = parsed.chinese;
-  
-  // 如果有日文，添加到下一行
-  // if (parsed.japanese) {
-  //   result += '\n' + parsed.japanese;
-  // }
-  
-  return result;
-}
+// 语音播放与口型（口型动画叠加在轨道 2 上）
+const LIP_SYNC_TRACK = 2;
+let ttsBackend: TtsBackend | null = null;
+let currentPlayback: TtsPlayback | null = null;
+let speechRequestId = 0;
+let mouthAnimation: spine.Animation | null = null;
+let lipSyncEntry: spine.TrackEntry | null = null;
 
 // 当前心情动画
-let currentMoodAnimation: string = "00"; // 默认正常表情
+let currentMoodAnimation: string = "";
+let currentMood = "";
+let lastMoodChangeTime = Date.now();
+
+// 闲置行为配置（从设置加载）
+let IDLE_CONFIG = {
+  proactiveEnabled: true, // 老师长时间没有互动时主动搭话
+  proactiveMinutes: 30,
+  quietHoursStart: 23,    // 安静时段（小时），期间不主动说话
+  quietHoursEnd: 8,
+  moodResetMinutes: 5     // 心情多久没有更新后恢复默认（犯困时段改为困）
+};
+const IDLE_CHECK_INTERVAL = 30 * 1000;
+let lastUserActivityTime = Date.now();
+let hasSpokenSinceActivity = false; // 本次闲置期间已经主动说过话
 
 // 切换心情叠加动画
-function setMoodAnimation(mood: string) {
+// restart 为 true 时即使是当前的心情也从头播放
+function setMoodAnimation(mood: string, restart = false) {
   if (!animationState) return;
   
   // 查找心情对应的动画编号
-  const animationId = MOOD_ANIMATIONS[mood];
+  const animationId = activeCharacter.moods[mood];
   
-  if (animationId && animationId !== currentMoodAnimation) {
+  if (animationId) {
+    currentMood = mood;
+    lastMoodChangeTime = Date.now();
+  }
+  
+  if (animationId && (restart || animationId !== currentMoodAnimation)) {
     console.log(`Switching mood animation: ${mood} -> ${animationId}`);
     currentMoodAnimation = animationId;
     
@@ -121,15 +187,113 @@ function setMoodAnimation(mood: string) {
       entry.mixDuration = 0.2;
     }
   } else if (!animationId) {
-    console.warn(`Unknown mood: ${mood}, available moods:`, Object.keys(MOOD_ANIMATIONS));
+    console.warn(`Unknown mood: ${mood}, available moods:`, Object.keys(activeCharacter.moods));
+  }
+}
+
+// 朗读日语回复，新的朗读会打断正在播放的
+async function speakJapanese(text: string) {
+  if (!ttsBackend || !text) return;
+  
+  stopSpeaking();
+  const requestId = ++speechRequestId;
+  
+  try {
+    const playback = await ttsBackend.speak(text);
+    if (requestId !== speechRequestId) {
+      // 合成期间又有了新的朗读
+      playback.stop();
+      return;
+    }
+    
+    currentPlayback = playback;
+    startLipSync();
+    await playback.finished;
+    
+    if (currentPlayback === playback) {
+      currentPlayback = null;
+      stopLipSync();
+    }
+  } catch (e) {
+    console.warn("TTS 播放失败:", e);
   }
 }
 
-// OpenAI 客户端
-let openaiClient: OpenAI | null = null;
+function stopSpeaking() {
+  if (currentPlayback) {
+    currentPlayback.stop();
+    currentPlayback = null;
+  }
+  stopLipSync();
+}
+
+// 在口型轨道上播放口型动画，时间由 render 中的音量控制
+function startLipSync() {
+  if (!animationState || !mouthAnimation) return;
+  lipSyncEntry = animationState.setAnimationWith(LIP_SYNC_TRACK, mouthAnimation, false);
+  lipSyncEntry.timeScale = 0;
+  lipSyncEntry.mixDuration = 0;
+}
+
+function stopLipSync() {
+  if (!lipSyncEntry) return;
+  lipSyncEntry = null;
+  animationState.setEmptyAnimation(LIP_SYNC_TRACK, 0.1);
+}
+
+// 可用的 LLM 服务配置（有 Key 或本地服务），按请求顺序排列，当前配置在前
+let usableProfiles: LlmProfile[] = [];
+// 拒绝了 response_format 的服务配置，改用 | 分隔格式（设置变化后重新尝试）
+const structuredOutputRejected = new Set<string>();
+let sttClient: OpenAI | null = null;
+
+// 语音输入状态
+let recordingPromise: Promise<Recording> | null = null;
+let recordingStartedAt = 0;
+let isTranscribing = false;
+let recordingIndicatorTimer: number | null = null;
+
+// 对话消息（provider 为回答这条消息的 LLM 服务名称，raw、mood、japanese 为助手回复的原始内容和解析结果）
+// language 为这条消息单独切换的显示语言，不保存
+type ChatEntry = {
+  role: "user" | "assistant" | "system";
+  content: string;
+  provider?: string;
+  raw?: string;
+  mood?: string;
+  japanese?: string;
+  language?: BubbleLanguage;
+};
+
+// 对话框显示语言的切换顺序和按钮文字
+const BUBBLE_LANGUAGE_ORDER: BubbleLanguage[] = ["both", "chinese", "japanese"];
+const BUBBLE_LANGUAGE_LABELS: Record<BubbleLanguage, string> = {
+  both: "中日",
+  chinese: "中",
+  japanese: "日"
+};
+let BUBBLE_LANGUAGE: BubbleLanguage = "both";
+let ACTION_DISPLAY: ActionDisplay = "show";
 
-// 对话历史
-let chatHistory: Array<{ role: "user" | "assistant" | "system"; content: string }> = [];
+// 对话历史（系统提示 + 最近的对话，即发送给 LLM 的上下文）
+let chatHistory: ChatEntry[] = [];
+
+// 会话相关
+let sessions: SessionMeta[] = [];
+let activeSessionId: string | null = null;
+let archivedMessages: ChatEntry[] = []; // 已移出上下文、只用于历史显示的消息
+let archiveStart = 0;                   // 已加载的最早一条消息在会话中的下标
+let isSending = false;
+let chatAbortController: AbortController | null = null; // 正在进行的回复请求，停止生成时中止
+let sessionReloadPending = false; // 回复过程中导入了对话记录，回复完成后再切换会话
+let isConfirmingDelete = false;
+
+// 长期记忆
+let memoryFacts: MemoryFact[] = [];
+let memoryTask: Promise<void> = Promise.resolve(); // 记忆整理按顺序在后台执行
+
+// 老师正在使用的窗口（提示词模板用到 {active_window} 时才获取）
+let activeWindowTitle = "";
 
 let canvas: HTMLCanvasElement;
 let context: spine.ManagedWebGLRenderingContext;
@@ -145,15 +309,38 @@ let lastFrameTime: number = 0;
 
 // 窗口和骨骼信息
 let appWindow: Awaited<ReturnType<typeof getCurrentWindow>>;
+
+// 计算窗口大小时所在显示器的高度（逻辑像素）和缩放比例
+type MonitorMetrics = { height: number; scaleFactor: number };
+let sizedMonitor: MonitorMetrics | null = null;
+let windowMoveTimer: number | null = null;
 let skeletonScreenBounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
 
+// 窗口中接收鼠标事件的矩形（窗口内逻辑坐标）
+type InputRect = { x: number; y: number; width: number; height: number };
+
 // 对话框相关
 let chatContainer: HTMLElement;
 let chatInput: HTMLInputElement;
 let sendBtn: HTMLElement;
 let historyBtn: HTMLElement;
+let languageBtn: HTMLButtonElement;
 let messageList: HTMLElement;
 let dragHandle: HTMLElement;
+let recordingIndicator: HTMLElement;
+let reactionBubble: HTMLElement;
+let reactionBubbleTimer: number | null = null;
+let providerSelect: HTMLSelectElement;
+let toolConfirm: HTMLElement;
+let toolConfirmText: HTMLElement;
+let toolConfirmAllowBtn: HTMLButtonElement;
+let toolConfirmDenyBtn: HTMLButtonElement;
+let sessionBar: HTMLElement;
+let sessionSelect: HTMLSelectElement;
+let sessionNameInput: HTMLInputElement;
+let newSessionBtn: HTMLButtonElement;
+let renameSessionBtn: HTMLButtonElement;
+let deleteSessionBtn: HTMLButtonElement;
 let isChatVisible = false;
 let isShowingFullHistory = false; // 是否显示完整历史
 
@@ -165,6 +352,12 @@ let chatDragStartOffsetY = 0;
 
 // 点击穿透相关
 let isIgnoringCursor = false;
+let inputRegionKey = ""; // 上次设置的输入区域（不能点击穿透时使用）
+
+// 像素级点击判定：读取光标周围一小块区域的透明度
+const HIT_TEST_RADIUS = 2;     // 采样半径（像素），方便点中细小的部位
+const HIT_ALPHA_THRESHOLD = 24; // 透明度高于此值（0 ~ 255）视为点在角色身上
+const hitTestPixels = new Uint8Array((HIT_TEST_RADIUS * 2 + 1) ** 2 * 4);
 
 // 应用设置
 function applySettings(settings: Settings) {
@@ -174,96 +367,305 @@ function applySettings(settings: Settings) {
   FRAME_INTERVAL = 1000 / FPS_LIMIT;
   DRAG_W_RATIO = settings.dragWRatio;
   DRAG_H_RATIO = settings.dragHRatio;
+  PIXEL_HIT_TEST = settings.pixelHitTest;
+  IDLE_CONFIG = {
+    proactiveEnabled: settings.idleProactiveEnabled,
+    proactiveMinutes: settings.idleProactiveMinutes,
+    quietHoursStart: settings.quietHoursStart,
+    quietHoursEnd: settings.quietHoursEnd,
+    moodResetMinutes: settings.moodResetMinutes
+  };
+  TOUCH_LLM_REACTIONS = settings.touchLlmReactions;
+  BUBBLE_LANGUAGE = settings.bubbleLanguage;
+  ACTION_DISPLAY = settings.actionDisplay;
+  
+  STT_CONFIG = {
+    enabled: settings.sttEnabled,
+    apiKey: settings.sttApiKey,
+    baseURL: settings.sttBaseUrl,
+    model: settings.sttModel,
+    language: settings.sttLanguage,
+    mouseHold: settings.sttMouseHold
+  };
   
+  const activeProfile = getActiveProfile(settings);
   LLM_CONFIG = {
-    apiKey: settings.llmApiKey,
-    baseURL: settings.llmBaseUrl,
-    model: settings.llmModel,
-    systemPrompt: generateSystemPrompt(settings)
+    apiKey: activeProfile.apiKey,
+    baseURL: activeProfile.baseUrl,
+    model: activeProfile.model,
+    profiles: getProfileFailoverOrder(settings),
+    stream: settings.llmStream,
+    replyMode: settings.replyMode,
+    memoryEnabled: settings.memoryEnabled,
+    toolsEnabled: settings.llmToolsEnabled,
+    systemPrompt: buildSystemPrompt(settings, settings.replyMode),
+    pipeSystemPrompt: buildSystemPrompt(settings, "pipe")
+  };
+  // 模板用到前台窗口时尽早开始记录，发消息时桌宠自己在前台；不用时停止
+  setActiveWindowTracking(promptUsesVariable(settings, "active_window"));
+}
+
+// 创建语音播放后端
+function applyTtsSettings(settings: Settings) {
+  ttsBackend = settings.ttsEnabled
+    ? createTtsBackend(settings.ttsBackend, {
+        endpoint: settings.ttsEndpoint,
+        voice: settings.ttsVoice,
+        volume: settings.ttsVolume
+      })
+    : null;
+}
+
+// 当前会话的记忆（事实 + 摘要），未启用时为空
+function getPromptMemory(enabled: boolean): PromptMemory | undefined {
+  if (!enabled) return undefined;
+  const session = sessions.find(s => s.id === activeSessionId);
+  return {
+    facts: memoryFacts.map(f => f.content),
+    summary: session?.summary ?? ""
   };
 }
 
+// 记忆或会话变化后重新生成系统提示
+function rebuildSystemPrompt() {
+  const settings = loadSettingsSync();
+  LLM_CONFIG.systemPrompt = buildSystemPrompt(settings, LLM_CONFIG.replyMode);
+  LLM_CONFIG.pipeSystemPrompt = buildSystemPrompt(settings, "pipe");
+  refreshSystemPrompt();
+}
+
+// 按指定的回复格式模式生成系统提示
+function buildSystemPrompt(settings: Settings, replyMode: ReplyMode): string {
+  return generateSystemPrompt(
+    { ...settings, replyMode },
+    getPromptMemory(settings.memoryEnabled),
+    Object.keys(activeCharacter.moods),
+    activeWindowTitle
+  );
+}
+
+// 发送前更新系统提示中的时间和老师正在使用的窗口
+async function refreshPromptContext() {
+  if (promptUsesVariable(loadSettingsSync(), "active_window")) {
+    activeWindowTitle = await getActiveWindowTitle();
+  }
+  rebuildSystemPrompt();
+}
+
+// 更新系统提示，保留当前对话
+function refreshSystemPrompt() {
+  chatHistory = [
+    { role: "system", content: LLM_CONFIG.systemPrompt },
+    ...chatHistory.filter(m => m.role !== "system")
+  ];
+}
+
 // 初始化 OpenAI 客户端
 function initOpenAI() {
-  if (!LLM_CONFIG.apiKey) {
-    console.warn("OpenAI API Key 未设置，LLM 功能将不可用");
+  refreshSystemPrompt();
+  
+  // 语音识别客户端：地址和 Key 为空时使用当前 LLM 服务的，都由 Rust 端按保存的设置填入
+  sttClient = STT_CONFIG.enabled
+    ? createServiceClient({ service: STT_SECRET_ID }, STT_CONFIG.baseURL || LLM_CONFIG.baseURL)
+    : null;
+  
+  // 配置了 Key 的 LLM 服务和本地服务
+  usableProfiles = LLM_CONFIG.profiles.filter(isProfileUsable);
+  structuredOutputRejected.clear();
+  
+  if (usableProfiles.length === 0) {
+    console.warn("OpenAI API Key 未设置且没有本地服务，LLM 功能将不可用");
     return;
   }
   
-  openaiClient = new OpenAI({
-    apiKey: LLM_CONFIG.apiKey,
-    baseURL: LLM_CONFIG.baseURL,
-    dangerouslyAllowBrowser: true // 在浏览器环境中使用
+  console.log(`LLM 服务初始化成功（${usableProfiles.length} 个服务）`);
+}
+
+// 渲染对话框顶部的模型下拉框
+function renderProviderSelect() {
+  const settings = loadSettingsSync();
+  providerSelect.innerHTML = "";
+  settings.llmProfiles.forEach((profile) => {
+    const option = document.createElement("option");
+    option.value = profile.id;
+    option.textContent = profile.name;
+    providerSelect.appendChild(option);
   });
-  
-  // 初始化对话历史，添加系统提示
-  chatHistory = [
-    { role: "system", content: LLM_CONFIG.systemPrompt }
-  ];
-  
-  console.log("OpenAI 客户端初始化成功");
+  providerSelect.value = getActiveProfile(settings).id;
 }
 
-// 处理设置更新
-async function handleSettingsUpdate(newSettings: Settings) {
-  console.log("Handling settings update:", newSettings);
-  applySettings(newSettings);
-  setCachedSettings(newSettings);
+// 从对话框切换当前使用的 LLM 服务
+async function switchProvider(profileId: string) {
+  const newSettings: Settings = { ...loadSettingsSync(), activeLlmProfileId: profileId };
+  // 保存后由设置变化事件重新选择客户端
+  await saveSettings(newSettings);
+}
+
+// 设置变化时只更新受影响的部分：换模型不重建窗口，改帧率不影响对话
+async function setupSettingsSync() {
+  // 配置变量，赋值后即生效（帧率、拖动区域、闲置行为等）
+  onSettingsChanged(applySettings);
+  onSettingsChanged(applyTtsSettings, ["ttsEnabled", "ttsBackend", "ttsEndpoint", "ttsVoice", "ttsVolume"]);
+  
+  // LLM 服务和语音识别的客户端
+  onSettingsChanged(() => {
+    initOpenAI();
+    renderProviderSelect();
+  }, ["llmProfiles", "activeLlmProfileId", "sttEnabled", "sttBaseUrl", "sttApiKey"]);
+  
+  // 系统提示中的人设和回复格式（applySettings 已重新生成）
+  onSettingsChanged(refreshSystemPrompt, ["userName", "characterSetting", "replyFormat", "replyMode", "memoryEnabled"]);
+  
+  // 角色包和窗口大小
+  onSettingsChanged(switchCharacter, ["characterId"]);
+  onSettingsChanged(async (_settings, changed) => {
+    if (changed.includes("characterId")) return; // 切换角色时已经重建
+    await setupSkeletonAndResize();
+  }, ["screenHeightRatio", "padding"]);
+  
+  // 对话框的显示语言和动作描写
+  onSettingsChanged(() => {
+    languageBtn.textContent = BUBBLE_LANGUAGE_LABELS[BUBBLE_LANGUAGE];
+    renderMessageList(false);
+  }, ["bubbleLanguage", "actionDisplay"]);
+  
+  await startSettingsSync();
+}
+
+// 设置中切换了角色包：载入资源，重新生成系统提示（心情列表随角色变化）并重建骨骼
+async function switchCharacter(settings: Settings) {
+  let previousAssets: spine.AssetManager | undefined;
+  try {
+    previousAssets = await loadCharacter(settings.characterId);
+  } catch (e) {
+    console.error(`Failed to load character ${settings.characterId}:`, e);
+    return;
+  }
+  rebuildSystemPrompt();
+  await setupSkeletonAndResize();
+  previousAssets?.dispose();
+}
+
+// 加载角色包的骨骼和贴图并设为当前角色，角色没有变化且不要求重新加载时跳过
+// 返回被替换的资源，由调用方在骨骼重建之后释放（渲染循环在此之前仍在使用）
+async function loadCharacter(characterId: string, reload = false): Promise<spine.AssetManager | undefined> {
+  const character = await getCharacter(characterId);
+  if (assetManager && character.id === activeCharacter.id && !reload) {
+    return undefined;
+  }
   
-  // 重新初始化 OpenAI 客户端
-  initOpenAI();
+  const manager = new spine.AssetManager(context, character.assetBase);
+  manager.loadBinary(character.skeleton);
+  manager.loadTextureAtlas(character.atlas);
+  try {
+    await waitForAssets(manager);
+  } catch (e) {
+    manager.dispose();
+    throw e;
+  }
   
-  // 重新调整窗口大小
-  console.log("Resizing window with new SCREEN_HEIGHT_RATIO:", SCREEN_HEIGHT_RATIO);
-  await setupSkeletonAndResize();
-  console.log("Window resized with new settings");
+  console.log(`Loaded character: ${character.name} (${character.id})`);
+  const previous = assetManager;
+  assetManager = manager;
+  activeCharacter = character;
+  return previous;
 }
 
 async function init() {
   // 加载设置（从 Rust 后端）
   console.log("Main window: Loading settings from backend...");
   const settings = await loadSettings();
-  console.log("Main window: Loaded settings:", settings);
+  memoryFacts = await getMemoryFacts();
   applySettings(settings);
+  applyTtsSettings(settings);
   setCachedSettings(settings);
   
-  // 监听设置更新事件
-  console.log("Main window: Setting up settings-updated listener");
-  const unlisten = await listen<Settings>("settings-updated", async (event) => {
-    console.log("Main window: Received settings update:", event.payload);
-    await handleSettingsUpdate(event.payload);
-  });
-  console.log("Main window: Listener set up, unlisten function:", unlisten);
-  
-  // 备用方案：定时检查设置是否有变化
-  let lastSettingsJson = JSON.stringify(settings);
-  setInterval(async () => {
+  // 设置窗口中重新导入了角色包，当前角色需要重新加载资源
+  await listen<string>("character-packs-updated", async (event) => {
+    if (event.payload !== activeCharacter.id) return;
     try {
-      const currentSettings = await loadSettings();
-      const currentJson = JSON.stringify(currentSettings);
-      if (currentJson !== lastSettingsJson) {
-        console.log("Main window: Settings change detected via polling");
-        lastSettingsJson = currentJson;
-        await handleSettingsUpdate(currentSettings);
-      }
+      const previousAssets = await loadCharacter(activeCharacter.id, true);
+      rebuildSystemPrompt();
+      await setupSkeletonAndResize();
+      previousAssets?.dispose();
     } catch (e) {
-      // 忽略错误
+      console.error("Failed to reload character:", e);
+    }
+  });
+  
+  // 设置窗口中修改了长期记忆
+  await listen("memory-updated", async () => {
+    memoryFacts = await getMemoryFacts();
+    rebuildSystemPrompt();
+  });
+  
+  // 设置窗口中导入了对话记录（已切换为当前会话）
+  // 正在回复时等回复写入原来的会话后再切换
+  await listen("chat-sessions-updated", async () => {
+    if (isSending) {
+      sessionReloadPending = true;
+      return;
     }
-  }, 1000); // 每秒检查一次
+    await reloadActiveSession();
+  });
+  
+  // 提醒到时间：切换心情并在角色上方显示提醒内容
+  await listen<Reminder>("reminder-fired", (event) => {
+    const mood = activeCharacter.reminderMood && activeCharacter.moods[activeCharacter.reminderMood]
+      ? activeCharacter.reminderMood
+      : activeCharacter.defaultMood;
+    setMoodAnimation(mood);
+    showReactionBubble(`⏰ ${event.payload.message}`, REMINDER_BUBBLE_MS);
+  });
+  
+  // 全局快捷键（显示/隐藏角色由 Rust 端处理）
+  await listen<HotkeyField>("hotkey-pressed", (event) => {
+    if (event.payload === "hotkeyOpenChat") {
+      openChatInput();
+    } else if (event.payload === "hotkeyRepeatLast") {
+      repeatLastReply().catch(console.error);
+    }
+  });
+  
+  // 按住说话的全局快捷键，由 Rust 端注册（窗口没有焦点时也能使用）
+  await listen<boolean>("push-to-talk", (event) => {
+    if (!STT_CONFIG.enabled) return;
+    if (event.payload) {
+      startVoiceInput();
+    } else {
+      stopVoiceInput();
+    }
+  });
   
   canvas = document.getElementById("canvas") as HTMLCanvasElement;
   chatContainer = document.getElementById("chat-container") as HTMLElement;
   chatInput = document.getElementById("chat-input") as HTMLInputElement;
   sendBtn = document.getElementById("send-btn") as HTMLElement;
   historyBtn = document.getElementById("history-btn") as HTMLElement;
+  languageBtn = document.getElementById("language-btn") as HTMLButtonElement;
   messageList = document.getElementById("message-list") as HTMLElement;
   dragHandle = document.getElementById("drag-handle") as HTMLElement;
+  recordingIndicator = document.getElementById("recording-indicator") as HTMLElement;
+  reactionBubble = document.getElementById("reaction-bubble") as HTMLElement;
+  providerSelect = document.getElementById("provider-select") as HTMLSelectElement;
+  toolConfirm = document.getElementById("tool-confirm") as HTMLElement;
+  toolConfirmText = document.getElementById("tool-confirm-text") as HTMLElement;
+  toolConfirmAllowBtn = document.getElementById("tool-confirm-allow") as HTMLButtonElement;
+  toolConfirmDenyBtn = document.getElementById("tool-confirm-deny") as HTMLButtonElement;
+  sessionBar = document.getElementById("session-bar") as HTMLElement;
+  sessionSelect = document.getElementById("session-select") as HTMLSelectElement;
+  sessionNameInput = document.getElementById("session-name-input") as HTMLInputElement;
+  newSessionBtn = document.getElementById("new-session-btn") as HTMLButtonElement;
+  renameSessionBtn = document.getElementById("rename-session-btn") as HTMLButtonElement;
+  deleteSessionBtn = document.getElementById("delete-session-btn") as HTMLButtonElement;
 
   // 创建 ManagedWebGLRenderingContext，启用透明
+  // 保留绘制结果，用于按像素判断鼠标是否在角色身上
   const config: WebGLContextAttributes = { 
     alpha: true,
     premultipliedAlpha: true,
-    antialias: true
+    antialias: true,
+    preserveDrawingBuffer: true
   };
   context = new spine.ManagedWebGLRenderingContext(canvas, config);
   
@@ -278,18 +680,24 @@ async function init() {
   skeletonRenderer = new spine.SkeletonRenderer(context);
   mvp = new spine.Matrix4();
 
-  // 加载资源
-  assetManager = new spine.AssetManager(context, "/");
-  
-  // 加载 .skel (二进制格式) 和 atlas
-  assetManager.loadBinary(`${SKELETON_PATH}.skel`);
-  assetManager.loadTextureAtlas(`${SKELETON_PATH}.atlas`);
-
-  // 等待资源加载完成
-  await waitForAssets();
+  // 加载角色包资源（.skel 和 atlas），失败时退回内置角色
+  try {
+    await loadCharacter(settings.characterId);
+  } catch (e) {
+    console.error(`Failed to load character ${settings.characterId}, falling back to built-in:`, e);
+    await loadCharacter(BUILTIN_CHARACTER.id);
+  }
+  rebuildSystemPrompt();
   
-  // 设置骨骼并自适应窗口
+  // 恢复上次的窗口位置，再按所在的显示器设置骨骼并自适应窗口
+  appWindow = getCurrentWindow();
+  try {
+    await invoke("restore_window_position");
+  } catch (e) {
+    console.warn("Failed to restore window position:", e);
+  }
   await setupSkeletonAndResize();
+  await setupWindowMonitorTracking();
   
   // 设置窗口拖拽
   setupWindowDrag();
@@ -300,8 +708,20 @@ async function init() {
   // 初始化 OpenAI 客户端
   initOpenAI();
   
+  // 接收设置变化
+  await setupSettingsSync();
+  
+  // 恢复上次的会话
+  await loadActiveSession();
+  
+  // 启动闲置行为检测
+  startIdleScheduler();
+  
+  // 提醒事件的监听已经注册，开始检查提醒
+  await invoke("start_reminder_scheduler");
+  
   // 启动鼠标位置轮询检测
-  startCursorTracking();
+  await startCursorTracking();
   
   // 监听窗口大小变化
   window.addEventListener("resize", onWindowResize);
@@ -312,12 +732,56 @@ async function init() {
 }
 
 // 启动鼠标位置轮询
-function startCursorTracking() {
+// 获取不到全局鼠标位置时（如 Wayland）不能按鼠标位置切换点击穿透：穿透后 webview 收不到鼠标事件，无法再切换回来。
+// 这时窗口保持可点击，改为把输入区域限制在角色和对话框的矩形内，其余部分的点击落到下面的窗口；
+// Wayland 下可以用 GDK_BACKEND=x11 启动，按角色轮廓穿透（设置窗口顶部和 README 中有说明）
+async function startCursorTracking() {
+  try {
+    await invoke("get_cursor_position");
+  } catch (err) {
+    console.warn("Global cursor position unavailable, limiting input to the character and chat (on Wayland, start with GDK_BACKEND=x11 for full click-through):", err);
+    isIgnoringCursor = false;
+    await invoke("set_ignore_cursor_events", { ignore: false });
+    setInterval(() => {
+      updateInputRegion().catch(console.error);
+    }, INPUT_REGION_INTERVAL);
+    return;
+  }
+  
   setInterval(async () => {
     await checkCursorPosition();
   }, CURSOR_CHECK_INTERVAL);
 }
 
+// 按网格向外取整的矩形（窗口内逻辑坐标），角色动起来时不用每帧更新输入区域
+function snapInputRect(left: number, top: number, right: number, bottom: number): InputRect {
+  const x = Math.max(0, Math.floor(left / INPUT_REGION_GRID) * INPUT_REGION_GRID);
+  const y = Math.max(0, Math.floor(top / INPUT_REGION_GRID) * INPUT_REGION_GRID);
+  return {
+    x,
+    y,
+    width: Math.ceil(right / INPUT_REGION_GRID) * INPUT_REGION_GRID - x,
+    height: Math.ceil(bottom / INPUT_REGION_GRID) * INPUT_REGION_GRID - y
+  };
+}
+
+// 把窗口的输入区域设为角色和对话框所在的矩形，只在变化时更新
+async function updateInputRegion() {
+  if (!skeletonScreenBounds) return;
+  
+  const bounds = skeletonScreenBounds;
+  const rects = [snapInputRect(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)];
+  if (isChatVisible) {
+    const rect = chatContainer.getBoundingClientRect();
+    rects.push(snapInputRect(rect.left, rect.top, rect.right, rect.bottom));
+  }
+  
+  const key = JSON.stringify(rects);
+  if (key === inputRegionKey) return;
+  inputRegionKey = key;
+  await invoke("set_input_region", { rects });
+}
+
 // 检测鼠标位置并更新穿透状态
 async function checkCursorPosition() {
   if (!appWindow || !skeletonScreenBounds) return;
@@ -331,12 +795,12 @@ async function checkCursorPosition() {
     const [cursorX, cursorY] = await invoke<[number, number]>("get_cursor_position");
     
     // 转换为窗口内逻辑坐标
-    // Windows API 返回的是物理像素，需要除以缩放因子
+    // 返回的是物理像素，需要除以缩放因子
     const localX = (cursorX - pos.x) / scaleFactor;
     const localY = (cursorY - pos.y) / scaleFactor;
     
     // 检测是否在骨骼区域或对话框区域
-    const inSkeleton = isPointInSkeletonBounds(localX, localY);
+    const inSkeleton = isPointOnSkeleton(localX, localY);
     const inChat = isPointInChatArea(localX, localY);
     const shouldIgnore = !inSkeleton && !inChat;
     
@@ -350,6 +814,32 @@ async function checkCursorPosition() {
   }
 }
 
+// 检测鼠标是否在角色身上：默认按渲染结果的像素透明度判定，关闭时使用矩形拖拽区域
+function isPointOnSkeleton(localX: number, localY: number): boolean {
+  return PIXEL_HIT_TEST
+    ? isPointOnSkeletonPixel(localX, localY)
+    : isPointInSkeletonBounds(localX, localY);
+}
+
+// 读取 canvas 上一帧的像素，判断该位置是否有不透明的内容
+// canvas 创建时开启了 preserveDrawingBuffer，渲染循环之外也能读到上一帧
+function isPointOnSkeletonPixel(localX: number, localY: number): boolean {
+  const gl = context.gl;
+  const scaleX = canvas.width / (canvas.clientWidth || canvas.width);
+  const scaleY = canvas.height / (canvas.clientHeight || canvas.height);
+  const x = Math.floor(localX * scaleX);
+  const y = canvas.height - 1 - Math.floor(localY * scaleY); // WebGL 的 y 轴向上
+  if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) return false;
+  
+  const size = HIT_TEST_RADIUS * 2 + 1;
+  hitTestPixels.fill(0);
+  gl.readPixels(x - HIT_TEST_RADIUS, y - HIT_TEST_RADIUS, size, size, gl.RGBA, gl.UNSIGNED_BYTE, hitTestPixels);
+  for (let i = 3; i < hitTestPixels.length; i += 4) {
+    if (hitTestPixels[i] > HIT_ALPHA_THRESHOLD) return true;
+  }
+  return false;
+}
+
 // 检测鼠标是否在拖拽区域内（骨骼中心的矩形区域）
 function isPointInSkeletonBounds(localX: number, localY: number): boolean {
   if (!skeletonScreenBounds) return false;
@@ -427,13 +917,93 @@ function updateSkeletonScreenBounds() {
 
 // 设置窗口拖拽功能
 function setupWindowDrag() {
-  // 整个 canvas 都可以拖拽窗口
-  canvas.addEventListener("mousedown", async (e) => {
-    if (e.button === 0) {
+  // 按下的位置和时间（移动一段距离后才开始拖动，松开时没有拖动也没有长按则为点击）
+  let pressStart: { x: number; y: number; time: number } | null = null;
+  let pressRegion: TouchRegion | null = null;
+  let pressTimer: number | null = null;
+  let isHoldingToTalk = false;
+  // 等待第二次点击的区域（该区域有双击反应时，单击延迟触发）
+  let pendingTap: { region: TouchRegion; timer: number } | null = null;
+  
+  // 角色所在区域可以拖拽窗口（点击穿透可用时其他区域本来就收不到事件）
+  canvas.addEventListener("mousedown", (e) => {
+    if (e.button !== 0 || !isPointOnSkeleton(e.clientX, e.clientY)) return;
+    
+    markUserActivity();
+    pressStart = { x: e.clientX, y: e.clientY, time: performance.now() };
+    pressRegion = getTouchRegionAt(e.clientX, e.clientY);
+    
+    // 长按：区域有长按反应（如摸头）时优先触发，否则开启了长按说话时开始录音
+    const region = pressRegion;
+    const canHoldToTalk = STT_CONFIG.enabled && STT_CONFIG.mouseHold;
+    if (region?.reactions.longPress || canHoldToTalk) {
+      pressTimer = window.setTimeout(() => {
+        pressTimer = null;
+        pressStart = null;
+        if (region?.reactions.longPress) {
+          triggerTouchReaction(region, "longPress");
+        } else {
+          isHoldingToTalk = true;
+          startVoiceInput();
+        }
+      }, LONG_PRESS_MS);
+    }
+  });
+  
+  canvas.addEventListener("mousemove", async (e) => {
+    if (!pressStart) return;
+    
+    const distance = Math.hypot(e.clientX - pressStart.x, e.clientY - pressStart.y);
+    if (distance > DRAG_THRESHOLD) {
+      if (pressTimer !== null) {
+        clearTimeout(pressTimer);
+        pressTimer = null;
+      }
+      pressStart = null;
       await appWindow.startDragging();
     }
   });
   
+  window.addEventListener("mouseup", () => {
+    if (pressTimer !== null) {
+      clearTimeout(pressTimer);
+      pressTimer = null;
+    }
+    
+    // 没有拖动、也没有触发长按，视为点击
+    const region = pressRegion;
+    const isTap = pressStart !== null && performance.now() - pressStart.time < LONG_PRESS_MS;
+    pressStart = null;
+    pressRegion = null;
+    
+    if (isHoldingToTalk) {
+      isHoldingToTalk = false;
+      stopVoiceInput();
+    }
+    
+    if (!isTap || !region) return;
+    
+    if (pendingTap && pendingTap.region.id === region.id) {
+      clearTimeout(pendingTap.timer);
+      pendingTap = null;
+      triggerTouchReaction(region, "doubleTap");
+    } else if (region.reactions.doubleTap) {
+      if (pendingTap) {
+        clearTimeout(pendingTap.timer);
+        triggerTouchReaction(pendingTap.region, "tap");
+      }
+      pendingTap = {
+        region,
+        timer: window.setTimeout(() => {
+          pendingTap = null;
+          triggerTouchReaction(region, "tap");
+        }, DOUBLE_TAP_MS)
+      };
+    } else {
+      triggerTouchReaction(region, "tap");
+    }
+  });
+  
   // 右键切换对话框显示
   canvas.addEventListener("contextmenu", (e) => {
     e.preventDefault();
@@ -441,11 +1011,105 @@ function setupWindowDrag() {
   });
 }
 
+// 查找窗口内坐标处的触摸区域
+function getTouchRegionAt(localX: number, localY: number): TouchRegion | null {
+  if (!skeleton || !skeletonScreenBounds) return null;
+  const skeletonHeight = skeletonScreenBounds.maxY - skeletonScreenBounds.minY;
+  // 窗口坐标 Y 向下，骨骼世界坐标 Y 向上
+  return findTouchRegion(skeleton, activeCharacter.touchRegions, localX, canvas.height - localY, skeletonHeight);
+}
+
+// 触发触摸反应：切换心情，并说一句本地台词或让 LLM 回应这个动作
+async function triggerTouchReaction(region: TouchRegion, gesture: TouchGesture) {
+  const reaction = region.reactions[gesture];
+  if (!reaction) return;
+  
+  console.log(`Touch: ${region.name} (${gesture}) -> ${reaction.mood}`);
+  setMoodAnimation(reaction.mood);
+  
+  const localLine = pickReactionLine(reaction);
+  if ((TOUCH_LLM_REACTIONS || !localLine) && usableProfiles.length > 0 && !isSending && region.action) {
+    const reply = await sendUserMessage(`（${region.action}）`);
+    if (reply && !isChatVisible) {
+      showReactionBubble(reply);
+    }
+    return;
+  }
+  
+  if (localLine) {
+    showReactionBubble(localLine);
+  }
+}
+
+// 记录老师的互动（发消息、点击角色），重新开始闲置计时
+function markUserActivity() {
+  lastUserActivityTime = Date.now();
+  hasSpokenSinceActivity = false;
+}
+
+// 定时检查闲置行为
+function startIdleScheduler() {
+  setInterval(() => {
+    checkIdleBehavior().catch(console.error);
+  }, IDLE_CHECK_INTERVAL);
+}
+
+// 心情长时间没有更新时恢复默认（犯困时段改为困），老师长时间没有互动时主动搭话
+async function checkIdleBehavior() {
+  if (isSending || recordingPromise || isTranscribing) return;
+  
+  const now = new Date();
+  
+  if (now.getTime() - lastMoodChangeTime > IDLE_CONFIG.moodResetMinutes * 60 * 1000) {
+    const sleepyMood = activeCharacter.sleepyMood;
+    const idleMood = sleepyMood && activeCharacter.moods[sleepyMood] && isSleepyTime(now)
+      ? sleepyMood
+      : activeCharacter.defaultMood;
+    if (idleMood !== currentMood) {
+      setMoodAnimation(idleMood);
+    }
+  }
+  
+  const idleMinutes = Math.floor((now.getTime() - lastUserActivityTime) / 60000);
+  if (
+    IDLE_CONFIG.proactiveEnabled &&
+    !hasSpokenSinceActivity &&
+    idleMinutes >= IDLE_CONFIG.proactiveMinutes &&
+    !isInQuietHours(now, IDLE_CONFIG.quietHoursStart, IDLE_CONFIG.quietHoursEnd) &&
+    usableProfiles.length > 0
+  ) {
+    // 每段闲置期间只主动说一次，老师回应之后重新计时
+    hasSpokenSinceActivity = true;
+    console.log(`Idle for ${idleMinutes} minutes, starting a proactive turn`);
+    const reply = await sendUserMessage(buildProactivePrompt(now, idleMinutes), true);
+    if (reply && !isChatVisible) {
+      showReactionBubble(reply);
+    }
+  }
+}
+
+// 在角色上方显示一句台词，几秒后消失
+function showReactionBubble(text: string, duration = REACTION_BUBBLE_MS) {
+  reactionBubble.textContent = text;
+  reactionBubble.classList.add("visible");
+  if (reactionBubbleTimer !== null) {
+    clearTimeout(reactionBubbleTimer);
+  }
+  reactionBubbleTimer = window.setTimeout(() => {
+    reactionBubble.classList.remove("visible");
+    reactionBubbleTimer = null;
+  }, duration);
+}
+
 // 设置对话框
 function setupChat() {
-  // 发送按钮点击
+  // 发送按钮点击（等待回复时为停止生成）
   sendBtn.addEventListener("click", () => {
-    sendMessage();
+    if (isSending) {
+      stopGenerating();
+    } else {
+      sendMessage();
+    }
   });
 
   // 回车发送
@@ -468,8 +1132,353 @@ function setupChat() {
     renderMessageList();
   });
   
+  // 语言按钮 - 切换所有回复的显示语言，并清除单条消息的切换
+  languageBtn.textContent = BUBBLE_LANGUAGE_LABELS[BUBBLE_LANGUAGE];
+  languageBtn.addEventListener("click", async () => {
+    BUBBLE_LANGUAGE = nextBubbleLanguage(BUBBLE_LANGUAGE);
+    languageBtn.textContent = BUBBLE_LANGUAGE_LABELS[BUBBLE_LANGUAGE];
+    [...archivedMessages, ...chatHistory].forEach(m => { m.language = undefined; });
+    renderMessageList(false);
+    
+    const newSettings: Settings = { ...loadSettingsSync(), bubbleLanguage: BUBBLE_LANGUAGE };
+    setCachedSettings(newSettings);
+    await saveSettings(newSettings);
+  });
+  
   // 对话框拖动
   setupChatDrag();
+  
+  // 会话管理
+  setupSessionControls();
+  
+  // 模型切换
+  renderProviderSelect();
+  providerSelect.addEventListener("change", () => {
+    switchProvider(providerSelect.value).catch(console.error);
+  });
+}
+
+// 设置会话管理控件（切换、新建、重命名、删除）
+function setupSessionControls() {
+  sessionSelect.addEventListener("change", () => {
+    openSession(sessionSelect.value).catch(console.error);
+  });
+  
+  newSessionBtn.addEventListener("click", async () => {
+    try {
+      const session = await createSession();
+      sessions.unshift(session);
+      await openSession(session.id);
+    } catch (e) {
+      console.error("Failed to create chat session:", e);
+    }
+  });
+  
+  // 重命名：用输入框临时替换下拉框，回车确认，Esc 取消
+  renameSessionBtn.addEventListener("click", () => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    sessionNameInput.value = getSessionDisplayName(session);
+    sessionBar.classList.add("renaming");
+    sessionNameInput.focus();
+    sessionNameInput.select();
+  });
+  
+  sessionNameInput.addEventListener("keydown", async (e) => {
+    if (e.key === "Escape") {
+      sessionBar.classList.remove("renaming");
+      return;
+    }
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    
+    const name = sessionNameInput.value.trim();
+    const session = sessions.find(s => s.id === activeSessionId);
+    sessionBar.classList.remove("renaming");
+    if (!name || !session) return;
+    
+    try {
+      await renameSession(session.id, name);
+      session.name = name;
+      renderSessionSelect();
+    } catch (e) {
+      console.error("Failed to rename chat session:", e);
+    }
+  });
+  
+  sessionNameInput.addEventListener("blur", () => {
+    sessionBar.classList.remove("renaming");
+  });
+  
+  // 删除需要连续点击两次确认
+  deleteSessionBtn.addEventListener("click", async () => {
+    if (!activeSessionId) return;
+    
+    if (!isConfirmingDelete) {
+      isConfirmingDelete = true;
+      deleteSessionBtn.textContent = "确认?";
+      setTimeout(() => {
+        isConfirmingDelete = false;
+        deleteSessionBtn.textContent = "删除";
+      }, 3000);
+      return;
+    }
+    
+    isConfirmingDelete = false;
+    deleteSessionBtn.textContent = "删除";
+    
+    try {
+      await deleteSession(activeSessionId);
+      activeSessionId = null;
+      await loadActiveSession();
+    } catch (e) {
+      console.error("Failed to delete chat session:", e);
+    }
+  });
+}
+
+// 重新读取会话列表并切换到已保存的当前会话
+async function reloadActiveSession() {
+  activeSessionId = null;
+  await loadActiveSession();
+}
+
+// 加载当前会话，没有会话时新建一个
+async function loadActiveSession() {
+  try {
+    const list = await listSessions();
+    sessions = list.sessions;
+    
+    let sessionId = list.activeSessionId ?? sessions[0]?.id;
+    if (!sessionId) {
+      const session = await createSession();
+      sessions = [session];
+      sessionId = session.id;
+    }
+    
+    await openSession(sessionId);
+  } catch (e) {
+    console.error("Failed to load chat sessions:", e);
+  }
+}
+
+// 打开会话：把最近的消息载入上下文
+async function openSession(sessionId: string) {
+  if (sessionId !== activeSessionId) {
+    await switchSession(sessionId);
+  }
+  
+  const page = await getMessages(sessionId, CONTEXT_MESSAGE_LIMIT);
+  activeSessionId = sessionId;
+  chatHistory = page.messages.map(toChatEntry);
+  rebuildSystemPrompt(); // 使用该会话的对话摘要
+  archivedMessages = [];
+  archiveStart = page.start;
+  
+  isShowingFullHistory = false;
+  historyBtn.textContent = "历史";
+  renderSessionSelect();
+  renderMessageList();
+}
+
+// 向前加载更早的历史消息
+async function loadOlderMessages() {
+  if (!activeSessionId || archiveStart <= 0) return;
+  
+  try {
+    const page = await getMessages(activeSessionId, HISTORY_PAGE_SIZE, archiveStart);
+    archivedMessages = [...page.messages.map(toChatEntry), ...archivedMessages];
+    archiveStart = page.start;
+    
+    // 保持当前的滚动位置
+    const previousHeight = messageList.scrollHeight;
+    renderMessageList(false);
+    messageList.scrollTop = messageList.scrollHeight - previousHeight;
+  } catch (e) {
+    console.error("Failed to load older messages:", e);
+  }
+}
+
+// 保存消息到当前会话
+async function persistMessages(messages: StoredMessage[]) {
+  if (!activeSessionId) return;
+  
+  const meta = await appendMessages(activeSessionId, messages);
+  if (meta) {
+    sessions = [meta, ...sessions.filter(s => s.id !== meta.id)];
+    renderSessionSelect();
+  }
+}
+
+// 依次使用可用的服务整理记忆，都失败时抛出最后一个错误
+async function summarizeWithFailover(
+  profiles: LlmProfile[],
+  previousSummary: string,
+  knownFacts: string[],
+  dropped: ChatEntry[]
+): Promise<MemoryUpdate> {
+  let lastError: unknown = null;
+  for (const profile of profiles) {
+    try {
+      return await summarizeConversation(savedProfileService(profile), profile.model, previousSummary, knownFacts, dropped);
+    } catch (e) {
+      lastError = e;
+      console.warn(`记忆整理失败 (${profile.name}):`, e);
+    }
+  }
+  throw lastError;
+}
+
+// 把移出上下文的对话交给 LLM 整理成摘要，并提取关于老师的长期记忆
+function rememberDroppedMessages(dropped: ChatEntry[]) {
+  if (!LLM_CONFIG.memoryEnabled || usableProfiles.length === 0 || !activeSessionId) return;
+  
+  const profiles = usableProfiles;
+  const sessionId = activeSessionId;
+  
+  memoryTask = memoryTask.then(async () => {
+    try {
+      const session = sessions.find(s => s.id === sessionId);
+      const update = await summarizeWithFailover(
+        profiles,
+        session?.summary ?? "",
+        memoryFacts.map(f => f.content),
+        dropped
+      );
+      console.log(`Memory update: ${update.facts.length} facts, summary ${update.summary.length} chars`);
+      
+      await setSessionSummary(sessionId, update.summary);
+      if (session) {
+        session.summary = update.summary;
+      }
+      if (update.facts.length > 0) {
+        await addMemoryFacts(update.facts);
+        memoryFacts = await getMemoryFacts();
+      }
+      
+      rebuildSystemPrompt();
+    } catch (e) {
+      console.warn("记忆整理失败:", e);
+    }
+  });
+}
+
+function toChatEntry(message: StoredMessage): ChatEntry {
+  const { role, content, provider, raw, mood, japanese } = message;
+  return { role, content, provider, raw, mood, japanese };
+}
+
+// 渲染会话下拉框
+function renderSessionSelect() {
+  sessionSelect.innerHTML = "";
+  sessions.forEach((session) => {
+    const option = document.createElement("option");
+    option.value = session.id;
+    option.textContent = getSessionDisplayName(session);
+    sessionSelect.appendChild(option);
+  });
+  if (activeSessionId) {
+    sessionSelect.value = activeSessionId;
+  }
+}
+
+// 显示录音状态，hideAfter 毫秒后自动隐藏；text 为 null 时立即隐藏
+function showRecordingStatus(text: string | null, recording = false, hideAfter?: number) {
+  if (recordingIndicatorTimer !== null) {
+    clearTimeout(recordingIndicatorTimer);
+    recordingIndicatorTimer = null;
+  }
+  
+  recordingIndicator.textContent = text ?? "";
+  recordingIndicator.classList.toggle("visible", text !== null);
+  recordingIndicator.classList.toggle("recording", recording);
+  
+  if (text !== null && hideAfter) {
+    recordingIndicatorTimer = window.setTimeout(() => {
+      showRecordingStatus(null);
+    }, hideAfter);
+  }
+}
+
+// 开始按住说话
+function startVoiceInput() {
+  if (!sttClient || recordingPromise || isTranscribing || isSending) return;
+  
+  if (!isChatVisible) {
+    toggleChat();
+  }
+  showRecordingStatus("● 正在听...", true);
+  
+  const pending = startRecording();
+  recordingPromise = pending;
+  recordingStartedAt = performance.now();
+  
+  pending.catch((e) => {
+    console.warn("无法开始录音:", e);
+    if (recordingPromise === pending) {
+      recordingPromise = null;
+    }
+    showRecordingStatus("⚠️ 无法使用麦克风", false, 2000);
+  });
+}
+
+// 松开后识别录音，并把识别结果作为消息发送
+async function stopVoiceInput() {
+  if (!recordingPromise || !sttClient) return;
+  
+  const pending = recordingPromise;
+  recordingPromise = null;
+  
+  let recording: Recording;
+  try {
+    recording = await pending;
+  } catch {
+    return; // 开始录音时已经提示过
+  }
+  
+  if (performance.now() - recordingStartedAt < MIN_RECORDING_MS) {
+    recording.cancel();
+    showRecordingStatus(null);
+    return;
+  }
+  
+  isTranscribing = true;
+  showRecordingStatus("识别中...");
+  
+  try {
+    const audio = await recording.stop();
+    const text = await transcribe(sttClient, STT_CONFIG.model, STT_CONFIG.language, audio);
+    console.log(`Transcribed ${text.length} chars`);
+    
+    if (!text) {
+      showRecordingStatus("没有听清，再说一次吧", false, 2000);
+      return;
+    }
+    
+    showRecordingStatus(null);
+    chatInput.value = text;
+    await sendMessage();
+  } catch (e) {
+    console.warn("语音识别失败:", e);
+    showRecordingStatus("⚠️ 识别失败", false, 2000);
+  } finally {
+    isTranscribing = false;
+  }
+}
+
+// 发送中禁止切换会话，避免回复写入错误的会话；发送按钮变为停止生成
+function setSending(sending: boolean) {
+  isSending = sending;
+  sendBtn.textContent = sending ? "停止" : "发送";
+  sessionSelect.disabled = sending;
+  providerSelect.disabled = sending;
+  newSessionBtn.disabled = sending;
+  renameSessionBtn.disabled = sending;
+  deleteSessionBtn.disabled = sending;
+  if (!sending && sessionReloadPending) {
+    sessionReloadPending = false;
+    reloadActiveSession().catch(console.error);
+  }
 }
 
 // 设置对话框拖动
@@ -516,20 +1525,55 @@ function toggleChat() {
   }
 }
 
+// 打开对话框并聚焦输入框，已打开时只聚焦
+function openChatInput() {
+  if (isChatVisible) {
+    chatInput.focus();
+  } else {
+    toggleChat();
+  }
+}
+
+// 重复最后一句：开启语音时重新朗读日文，否则把最后一条回复复制到剪贴板
+async function repeatLastReply() {
+  const last = [...archivedMessages, ...chatHistory].reverse().find(m => m.role === "assistant");
+  if (!last) return;
+  
+  if (ttsBackend && last.japanese) {
+    await speakJapanese(stripActions(last.japanese));
+    return;
+  }
+  await writeText(stripActions(last.content));
+  showReactionBubble("已复制最后一条回复");
+}
+
 // 渲染消息列表
-function renderMessageList() {
+function renderMessageList(scrollToBottom = true) {
   messageList.innerHTML = "";
   
   // 过滤掉系统消息，只显示用户和助手的对话
+  const conversation = chatHistory.filter(m => m.role !== "system");
   const messages = isShowingFullHistory 
-    ? chatHistory.filter(m => m.role !== "system")
-    : chatHistory.filter(m => m.role !== "system").slice(-2); // 只显示最后一轮（最后2条消息）
+    ? [...archivedMessages, ...conversation]
+    : conversation.slice(-2); // 只显示最后一轮（最后2条消息）
+  const hasOlder = isShowingFullHistory && archiveStart > 0;
   
-  if (messages.length === 0) {
+  if (messages.length === 0 && !hasOlder) {
     messageList.classList.remove("visible");
     return;
   }
   
+  // 完整历史模式下，还有更早的消息时显示加载按钮
+  if (hasOlder) {
+    const loadMore = document.createElement("button");
+    loadMore.className = "load-more-btn";
+    loadMore.textContent = "加载更早的消息";
+    loadMore.addEventListener("click", () => {
+      loadOlderMessages();
+    });
+    messageList.appendChild(loadMore);
+  }
+  
   messages.forEach((msg) => {
     const item = document.createElement("div");
     item.className = `msg-item ${msg.role}`;
@@ -537,7 +1581,42 @@ function renderMessageList() {
     if (msg.role === "user") {
       item.textContent = `你: ${msg.content}`;
     } else if (msg.role === "assistant") {
-      item.textContent = msg.content;
+      // 心情标签，点击重新播放该心情的动画
+      const moodName = msg.mood;
+      if (moodName) {
+        const mood = document.createElement("span");
+        mood.className = "msg-mood";
+        mood.textContent = moodName;
+        mood.title = "重新播放表情";
+        mood.addEventListener("click", () => {
+          setMoodAnimation(moodName, true);
+        });
+        item.appendChild(mood);
+      }
+      
+      item.appendChild(renderMarkdown(formatEntryText(msg, msg.language ?? BUBBLE_LANGUAGE), {
+        showActions: ACTION_DISPLAY === "show"
+      }));
+      
+      // 标注回答的 LLM 服务，有日文时可以单独切换这条消息的显示语言
+      if (msg.provider || msg.japanese) {
+        const footer = document.createElement("span");
+        footer.className = "msg-provider";
+        footer.textContent = msg.provider ?? "";
+        if (msg.japanese) {
+          const toggle = document.createElement("button");
+          toggle.className = "msg-language-btn";
+          const language = msg.language ?? BUBBLE_LANGUAGE;
+          toggle.textContent = BUBBLE_LANGUAGE_LABELS[language];
+          toggle.title = "切换显示语言";
+          toggle.addEventListener("click", () => {
+            msg.language = nextBubbleLanguage(language);
+            renderMessageList(false);
+          });
+          footer.appendChild(toggle);
+        }
+        item.appendChild(footer);
+      }
     }
     
     messageList.appendChild(item);
@@ -546,120 +1625,383 @@ function renderMessageList() {
   messageList.classList.add("visible");
   
   // 滚动到底部
-  messageList.scrollTop = messageList.scrollHeight;
+  if (scrollToBottom) {
+    messageList.scrollTop = messageList.scrollHeight;
+  }
+}
+
+function nextBubbleLanguage(language: BubbleLanguage): BubbleLanguage {
+  return BUBBLE_LANGUAGE_ORDER[(BUBBLE_LANGUAGE_ORDER.indexOf(language) + 1) % BUBBLE_LANGUAGE_ORDER.length];
+}
+
+// 按显示语言组合助手回复的文字，没有日文时只显示中文
+function formatEntryText(entry: ChatEntry, language: BubbleLanguage): string {
+  if (!entry.japanese || language === "chinese") return entry.content;
+  if (language === "japanese") return entry.japanese;
+  return `${entry.content}\n${entry.japanese}`;
+}
+
+// 停止生成：中止正在进行的请求，流式回复保留已经收到的部分
+function stopGenerating() {
+  chatAbortController?.abort();
 }
 
 // 发送消息
 async function sendMessage() {
   const message = chatInput.value.trim();
-  if (!message) return;
+  if (!message || isSending) return;
 
   // 清空输入框
   chatInput.value = "";
   
+  markUserActivity();
+  await sendUserMessage(message);
+}
+
+// 发送一条用户消息并等待回复，返回显示用的回复（失败时为 null）
+// hidden 为 true 时消息只发给 LLM，不显示也不保存（用于主动搭话），失败时不提示
+async function sendUserMessage(message: string, hidden = false): Promise<string | null> {
   // 禁用发送按钮
-  sendBtn.setAttribute("disabled", "true");
-  sendBtn.textContent = "...";
+  setSending(true);
 
   // 添加用户消息到历史并显示
-  chatHistory.push({ role: "user", content: message });
-  renderMessageList();
+  if (!hidden) {
+    chatHistory.push({ role: "user", content: message });
+    renderMessageList();
+    await persistMessages([{ role: "user", content: message, timestamp: Date.now() }]);
+  }
 
   // 如果没有配置 API Key，显示提示
-  if (!openaiClient) {
-    chatHistory.push({ role: "assistant", content: "⚠️ 请先在代码中配置 LLM_CONFIG.apiKey" });
+  if (usableProfiles.length === 0) {
+    chatHistory.push({ role: "assistant", content: "⚠️ 请先在设置中配置 LLM 的 API Key 或本地服务" });
     renderMessageList();
-    sendBtn.removeAttribute("disabled");
-    sendBtn.textContent = "发送";
-    return;
+    setSending(false);
+    return null;
   }
 
+  await refreshPromptContext();
+
   // 添加临时的"思考中"消息
   chatHistory.push({ role: "assistant", content: "思考中..." });
   renderMessageList();
 
-  let lastError: Error | null = null;
+  // 调用 OpenAI API 时不包含临时消息，也不带显示用的字段
+  // 助手的回复使用原始内容，让模型看到自己之前按格式输出的回复
+  const messagesForAPI: ChatEntry[] = chatHistory
+    .slice(0, -1) // 去掉最后的"思考中"
+    .map(({ role, content, raw }) => ({ role, content: raw ?? content }));
+  if (hidden) {
+    messagesForAPI.push({ role: "user", content: message });
+  }
   
-  for (let attempt = 1; attempt <= LLM_MAX_RETRIES; attempt++) {
-    try {
-      // 调用 OpenAI API（不包含临时消息）
-      const messagesForAPI = chatHistory.slice(0, -1); // 去掉最后的"思考中"
-      const completion = await openaiClient.chat.completions.create({
-        model: LLM_CONFIG.model,
-        messages: messagesForAPI,
-      });
-      
-      const reply = completion.choices[0]?.message?.content;
-      
-      // 检查是否有有效回复
-      if (!reply || reply.trim() === "") {
-        throw new Error("LLM 返回空回复");
-      }
-      
-      // 解析回复格式
-      const parsed = parseReply(reply);
-      const displayReply = formatReplyForDisplay(parsed);
-      
-      console.log("Raw reply:", reply);
-      console.log("Parsed reply:", parsed);
-      console.log("Display reply:", displayReply);
-      
-      // 根据心情切换叠加动画
-      if (parsed.mood) {
-        setMoodAnimation(parsed.mood);
-      }
-      
-      // 替换"思考中"为实际回复
-      chatHistory[chatHistory.length - 1] = { role: "assistant", content: displayReply };
-      
-      // 保持历史记录不要太长（保留系统提示 + 最近10轮对话）
-      if (chatHistory.length > 21) {
-        chatHistory = [
-          chatHistory[0], // 系统提示
-          ...chatHistory.slice(-20) // 最近20条消息
-        ];
-      }
-      
-      // 更新显示
+  // 重试和切换服务时沿用同一份上下文，已经执行过的工具调用和结果会带上，不会重复执行
+  const conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [...messagesForAPI];
+  
+  let lastError: Error | null = null;
+  let isFailover = false;
+  const abortController = new AbortController();
+  chatAbortController = abortController;
+  
+  // 当前服务重试用完后，依次切换到备用服务
+  for (const profile of usableProfiles) {
+    if (isFailover) {
+      console.warn(`切换到备用 LLM 服务: ${profile.name}`);
+      chatHistory[chatHistory.length - 1] = { role: "assistant", content: `思考中... (切换到 ${profile.name})` };
       renderMessageList();
-      
-      // 恢复发送按钮
-      sendBtn.removeAttribute("disabled");
-      sendBtn.textContent = "发送";
-      
-      // 成功，退出重试循环
-      return;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.warn(`LLM 请求失败 (尝试 ${attempt}/${LLM_MAX_RETRIES}):`, lastError.message);
-      
-      // 如果还有重试机会，等待后重试
-      if (attempt < LLM_MAX_RETRIES) {
-        chatHistory[chatHistory.length - 1] = { role: "assistant", content: `思考中... (重试 ${attempt}/${LLM_MAX_RETRIES - 1})` };
+    }
+    isFailover = true;
+    
+    for (let attempt = 1; attempt <= LLM_MAX_RETRIES; attempt++) {
+      try {
+        const reply = LLM_CONFIG.stream
+          ? await requestStreamingReply(profile, conversation, abortController.signal)
+          : await requestReply(profile, conversation, abortController.signal);
+        
+        // 检查是否有有效回复
+        if (!reply || reply.trim() === "") {
+          throw new Error("LLM 返回空回复");
+        }
+        
+        // 解析回复格式
+        const parsed = parseReplyWithMode(reply, profileReplyMode(profile));
+        const displayReply = formatReplyForDisplay(parsed);
+        
+        // 日志中只记录长度，不记录对话内容
+        console.log(`Reply from ${profile.name}: ${reply.length} chars, mood ${parsed.mood}`);
+        
+        // 根据心情切换叠加动画（流式模式下通常已经切换过，这里不会重复切换）
+        if (parsed.mood) {
+          setMoodAnimation(parsed.mood);
+        }
+        
+        // 动作描写中提到了心情时播放对应的动画
+        if (ACTION_DISPLAY === "animate") {
+          const actionMood = findActionMood(extractActions(parsed.chinese), Object.keys(activeCharacter.moods));
+          if (actionMood) {
+            setMoodAnimation(actionMood);
+          }
+        }
+        
+        // 替换"思考中"为实际回复
+        const replyEntry = {
+          role: "assistant" as const,
+          content: displayReply,
+          provider: profile.name,
+          raw: reply,
+          mood: parsed.mood || undefined,
+          japanese: parsed.japanese || undefined
+        };
+        chatHistory[chatHistory.length - 1] = replyEntry;
+        
+        // 朗读日语
+        if (parsed.japanese) {
+          speakJapanese(stripActions(parsed.japanese));
+        }
+        
+        await persistMessages([{ ...replyEntry, timestamp: Date.now() }]);
+        
+        // 保持上下文不要太长（保留系统提示 + 最近10轮对话），移出的消息留给历史显示
+        if (chatHistory.length > CONTEXT_MESSAGE_LIMIT + 1) {
+          const dropped = chatHistory.slice(1, -CONTEXT_MESSAGE_LIMIT);
+          archivedMessages.push(...dropped);
+          chatHistory = [
+            chatHistory[0], // 系统提示
+            ...chatHistory.slice(-CONTEXT_MESSAGE_LIMIT) // 最近20条消息
+          ];
+          
+          // 移出的对话整理进记忆（后台执行，不阻塞对话）
+          rememberDroppedMessages(dropped);
+        }
+        
+        // 更新显示
         renderMessageList();
-        await new Promise(resolve => setTimeout(resolve, LLM_RETRY_DELAY));
+        
+        // 恢复发送按钮
+        chatAbortController = null;
+        setSending(false);
+        
+        // 成功，退出重试循环
+        const bubbleText = formatEntryText(replyEntry, BUBBLE_LANGUAGE);
+        return ACTION_DISPLAY === "show" ? bubbleText : stripActions(bubbleText);
+      } catch (error) {
+        // 老师停止了生成且没有收到内容，不再重试
+        if (abortController.signal.aborted) {
+          chatHistory.pop();
+          renderMessageList();
+          chatAbortController = null;
+          setSending(false);
+          return null;
+        }
+        lastError = error instanceof Error ? error : new Error(String(error));
+        
+        // 服务不支持结构化输出时改用 | 分隔格式立即重新请求，不计入重试次数
+        if (profileReplyMode(profile) === "json" && isResponseFormatRejected(lastError)) {
+          console.warn(`${profile.name} 不支持 response_format，改用 | 分隔格式`);
+          structuredOutputRejected.add(profile.id);
+          attempt--;
+          continue;
+        }
+        
+        console.warn(`LLM 请求失败 (${profile.name}, 尝试 ${attempt}/${LLM_MAX_RETRIES}):`, lastError.message);
+        
+        // 如果还有重试机会，等待后重试
+        if (attempt < LLM_MAX_RETRIES) {
+          chatHistory[chatHistory.length - 1] = { role: "assistant", content: `思考中... (重试 ${attempt}/${LLM_MAX_RETRIES - 1})` };
+          renderMessageList();
+          await new Promise(resolve => setTimeout(resolve, LLM_RETRY_DELAY));
+        }
       }
     }
   }
   
-  // 所有重试都失败
+  // 所有服务的重试都失败
   console.error("LLM 请求最终失败:", lastError);
+  chatAbortController = null;
+  if (hidden) {
+    chatHistory.pop();
+    renderMessageList();
+    setSending(false);
+    return null;
+  }
   const errorMessage = lastError?.message || "未知错误";
   chatHistory[chatHistory.length - 1] = { role: "assistant", content: `❌ 请求失败: ${errorMessage}` };
   renderMessageList();
   
   // 恢复发送按钮
-  sendBtn.removeAttribute("disabled");
-  sendBtn.textContent = "发送";
+  setSending(false);
+  return null;
+}
+
+// 服务使用的回复格式模式：拒绝过 response_format 的服务使用 | 分隔格式
+function profileReplyMode(profile: LlmProfile): ReplyMode {
+  return LLM_CONFIG.replyMode === "json" && !structuredOutputRejected.has(profile.id) ? "json" : "pipe";
 }
 
-function waitForAssets(): Promise<void> {
+// 按回复格式模式替换上下文中的系统提示
+function withReplyModePrompt(
+  conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  replyMode: ReplyMode
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  if (replyMode === LLM_CONFIG.replyMode || conversation[0]?.role !== "system") return conversation;
+  return [{ role: "system", content: LLM_CONFIG.pipeSystemPrompt }, ...conversation.slice(1)];
+}
+
+// 提供给 LLM 的工具，未启用或已达到调用轮数上限时不提供
+function buildTools(round: number) {
+  if (!LLM_CONFIG.toolsEnabled || round >= MAX_TOOL_ROUNDS) return undefined;
+  return getToolDefinitions();
+}
+
+// 在对话框中请老师确认是否执行工具，超时视为拒绝
+function confirmToolCall(description: string): Promise<boolean> {
+  if (!isChatVisible) {
+    toggleChat();
+  }
+  toolConfirmText.textContent = `允许${activeCharacter.name}${description}吗？`;
+  toolConfirm.classList.add("visible");
+  
+  return new Promise(resolve => {
+    const finish = (allowed: boolean) => {
+      clearTimeout(timer);
+      toolConfirmAllowBtn.onclick = null;
+      toolConfirmDenyBtn.onclick = null;
+      toolConfirm.classList.remove("visible");
+      resolve(allowed);
+    };
+    const timer = window.setTimeout(() => finish(false), TOOL_CONFIRM_TIMEOUT_MS);
+    toolConfirmAllowBtn.onclick = () => finish(true);
+    toolConfirmDenyBtn.onclick = () => finish(false);
+  });
+}
+
+// 上下文中已经执行过的工具调用轮数
+function countToolRounds(conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): number {
+  return conversation.filter(message => message.role === "assistant" && message.tool_calls?.length).length;
+}
+
+// 执行 LLM 请求的工具调用，返回要追加到上下文中的助手消息和工具结果
+async function runToolCalls(
+  content: string | null,
+  calls: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[]
+): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
+  const results: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    { role: "assistant", content, tool_calls: calls }
+  ];
+  for (const call of calls) {
+    console.log(`Tool call: ${call.function.name}`);
+    const result = await executeToolCall(call.function.name, call.function.arguments, confirmToolCall);
+    console.log(`Tool result: ${call.function.name} (${result.length} chars)`);
+    results.push({ role: "tool", tool_call_id: call.id, content: result });
+  }
+  return results;
+}
+
+// 一次性请求完整回复，LLM 调用工具时执行后把结果追加到 conversation 并继续请求
+async function requestReply(
+  profile: LlmProfile,
+  conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  signal: AbortSignal
+): Promise<string> {
+  const replyMode = profileReplyMode(profile);
+  for (let round = countToolRounds(conversation); ; round++) {
+    const completion = await createChatCompletion(savedProfileService(profile), {
+      model: profile.model,
+      messages: withReplyModePrompt(conversation, replyMode),
+      temperature: profile.temperature ?? undefined,
+      max_tokens: profile.maxTokens ?? undefined,
+      response_format: buildResponseFormat(replyMode, Object.keys(activeCharacter.moods)),
+      tools: buildTools(round),
+    }, signal);
+    const message = completion.choices[0]?.message;
+    const calls = message?.tool_calls?.filter(call => call.type === "function") ?? [];
+    if (calls.length === 0) {
+      return message?.content ?? "";
+    }
+    conversation.push(...await runToolCalls(message?.content ?? null, calls));
+  }
+}
+
+// 流式请求回复：边接收边把中文显示到对话框，第一个 | 到达时立即切换心情
+// LLM 调用工具时执行后把结果追加到 conversation 并继续请求
+async function requestStreamingReply(
+  profile: LlmProfile,
+  conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  signal: AbortSignal
+): Promise<string> {
+  const replyMode = profileReplyMode(profile);
+  for (let round = countToolRounds(conversation); ; round++) {
+    const stream = streamChatCompletion(savedProfileService(profile), {
+      model: profile.model,
+      messages: withReplyModePrompt(conversation, replyMode),
+      temperature: profile.temperature ?? undefined,
+      max_tokens: profile.maxTokens ?? undefined,
+      response_format: buildResponseFormat(replyMode, Object.keys(activeCharacter.moods)),
+      tools: buildTools(round),
+    }, signal);
+    
+    const { reply, toolCalls } = await readReplyStream(stream, replyMode, signal);
+    if (toolCalls.length === 0) {
+      return reply;
+    }
+    conversation.push(...await runToolCalls(reply || null, toolCalls));
+  }
+}
+
+// 读取一次流式回复，工具调用的参数分多段到达，按 index 拼接
+// 停止生成时返回已经收到的部分（不执行工具调用）
+async function readReplyStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  replyMode: ReplyMode,
+  signal: AbortSignal
+): Promise<{ reply: string; toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[] }> {
+  let reply = "";
+  let moodApplied = false;
+  const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[] = [];
+  
+  try {
+    for await (const chunk of stream) {
+      for (const part of chunk.choices[0]?.delta?.tool_calls ?? []) {
+        const call = toolCalls[part.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+      
+      const delta = chunk.choices[0]?.delta?.content;
+      if (!delta) continue;
+      reply += delta;
+      
+      const partial = replyMode === "json"
+        ? parsePartialStructuredReply(reply)
+        : parsePartialReply(reply);
+      
+      if (!moodApplied && partial.moodResolved) {
+        moodApplied = true;
+        if (partial.mood) {
+          setMoodAnimation(partial.mood);
+        }
+      }
+      
+      if (partial.chinese) {
+        chatHistory[chatHistory.length - 1] = { role: "assistant", content: partial.chinese };
+        renderMessageList();
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted || reply === "") throw error;
+    return { reply, toolCalls: [] };
+  }
+  
+  return { reply, toolCalls: toolCalls.filter(Boolean) };
+}
+
+function waitForAssets(manager: spine.AssetManager): Promise<void> {
   return new Promise((resolve, reject) => {
     const check = () => {
-      if (assetManager.isLoadingComplete()) {
-        if (assetManager.hasErrors()) {
-          console.error("Asset loading errors:", assetManager.getErrors());
-          reject(assetManager.getErrors());
+      if (manager.isLoadingComplete()) {
+        if (manager.hasErrors()) {
+          console.error("Asset loading errors:", manager.getErrors());
+          reject(manager.getErrors());
         } else {
           resolve();
         }
@@ -674,16 +2016,15 @@ function waitForAssets(): Promise<void> {
 async function setupSkeletonAndResize() {
   appWindow = getCurrentWindow();
   
-  // 获取屏幕尺寸
-  const monitors = await availableMonitors();
-  const primaryMonitor = monitors[0];
-  const screenHeight = primaryMonitor?.size.height || 1080;
+  // 获取窗口所在显示器的高度
+  sizedMonitor = await getWindowMonitor();
+  const screenHeight = sizedMonitor.height;
   
   // 计算目标骨骼高度
   const targetSkeletonHeight = Math.round(screenHeight * SCREEN_HEIGHT_RATIO);
   
   // 获取加载的资源
-  const atlas = assetManager.require(`${SKELETON_PATH}.atlas`) as spine.TextureAtlas;
+  const atlas = assetManager.require(activeCharacter.atlas) as spine.TextureAtlas;
   const atlasLoader = new spine.AtlasAttachmentLoader(atlas);
   
   // 先用 scale=1 加载骨骼，获取原始尺寸
@@ -691,7 +2032,7 @@ async function setupSkeletonAndResize() {
   skeletonBinary.scale = 1;
   
   const skeletonData = skeletonBinary.readSkeletonData(
-    assetManager.require(`${SKELETON_PATH}.skel`) as Uint8Array
+    assetManager.require(activeCharacter.skeleton) as Uint8Array
   );
 
   // 创建临时骨骼来计算边界
@@ -721,8 +2062,13 @@ async function setupSkeletonAndResize() {
   // 调整窗口大小
   await appWindow.setSize(new LogicalSize(windowWidth, windowHeight));
   
-  // 等待窗口调整完成
+  // 等待窗口调整完成，变大后可能超出屏幕
   await new Promise(resolve => setTimeout(resolve, 100));
+  try {
+    await invoke("clamp_window_position");
+  } catch (e) {
+    console.warn("Failed to clamp window position:", e);
+  }
   
   // 更新 canvas 尺寸
   canvas.width = windowWidth;
@@ -733,7 +2079,7 @@ async function setupSkeletonAndResize() {
   skeletonBinary2.scale = scale;
   
   const scaledSkeletonData = skeletonBinary2.readSkeletonData(
-    assetManager.require(`${SKELETON_PATH}.skel`) as Uint8Array
+    assetManager.require(activeCharacter.skeleton) as Uint8Array
   );
 
   // 创建骨骼实例
@@ -753,6 +2099,13 @@ async function setupSkeletonAndResize() {
   animationStateData.defaultMix = 0.2;
   animationState = new spine.AnimationState(animationStateData);
   
+  // 重新构建口型动画（骨骼数据已经重新加载）
+  mouthAnimation = buildMouthAnimation(scaledSkeletonData, activeCharacter.mouthSlot, activeCharacter.mouthShapes);
+  lipSyncEntry = null;
+  if (currentPlayback) {
+    startLipSync();
+  }
+  
   // 打印可用的动画列表
   console.log("Available animations:");
   scaledSkeletonData.animations.forEach((anim) => {
@@ -762,19 +2115,60 @@ async function setupSkeletonAndResize() {
   // 播放默认动画
   const animations = scaledSkeletonData.animations;
   if (animations.length > 0) {
-    const targetAnim = animations.find(a => a.name === DEFAULT_ANIMATION) || animations[0];
+    const targetAnim = animations.find(a => a.name === activeCharacter.idleAnimation) || animations[0];
     animationState.setAnimation(0, targetAnim.name, true);
     console.log(`Playing animation: ${targetAnim.name}`);
     
-    // 设置默认心情动画（正常表情）叠加到轨道 1
-    animationState.setAnimation(1, "00", true);
-    console.log("Playing default mood animation: 00 (正常)");
+    // 设置默认心情动画叠加到轨道 1
+    currentMoodAnimation = "";
+    currentMood = "";
+    const defaultMoodAnimation = activeCharacter.moods[activeCharacter.defaultMood];
+    if (defaultMoodAnimation && scaledSkeletonData.findAnimation(defaultMoodAnimation)) {
+      animationState.setAnimation(1, defaultMoodAnimation, true);
+      currentMoodAnimation = defaultMoodAnimation;
+      currentMood = activeCharacter.defaultMood;
+      console.log(`Playing default mood animation: ${defaultMoodAnimation} (${activeCharacter.defaultMood})`);
+    }
   }
   
   // 初始化骨骼屏幕边界
   updateSkeletonScreenBounds();
 }
 
+// 窗口所在的显示器，获取不到时使用第一个显示器
+// 高度换算为逻辑像素，与 setSize 使用的 LogicalSize 一致
+async function getWindowMonitor(): Promise<MonitorMetrics> {
+  const monitor = await currentMonitor() ?? (await availableMonitors())[0];
+  if (!monitor) {
+    return { height: 1080, scaleFactor: 1 };
+  }
+  return { height: monitor.size.height / monitor.scaleFactor, scaleFactor: monitor.scaleFactor };
+}
+
+// 窗口移动或缩放比例变化：停下后保存位置，移到高度或缩放比例不同的显示器时重新计算大小
+async function setupWindowMonitorTracking() {
+  const onMoved = () => {
+    if (windowMoveTimer !== null) {
+      clearTimeout(windowMoveTimer);
+    }
+    windowMoveTimer = window.setTimeout(() => {
+      windowMoveTimer = null;
+      handleWindowMoved().catch(console.error);
+    }, WINDOW_MOVE_SETTLE_MS);
+  };
+  await appWindow.onMoved(onMoved);
+  await appWindow.onScaleChanged(onMoved);
+}
+
+async function handleWindowMoved() {
+  const monitor = await getWindowMonitor();
+  if (!sizedMonitor || monitor.height !== sizedMonitor.height || monitor.scaleFactor !== sizedMonitor.scaleFactor) {
+    console.log(`Moved to a different monitor (${monitor.height}px @${monitor.scaleFactor}x), resizing`);
+    await setupSkeletonAndResize();
+  }
+  await invoke("save_window_position");
+}
+
 // 计算骨骼边界
 function calculateSkeletonBounds(skeleton: spine.Skeleton): {
   minX: number;
@@ -848,6 +2242,11 @@ function render(now: number) {
   gl.enable(gl.BLEND);
   gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
 
+  // 按当前音量更新口型
+  if (lipSyncEntry && currentPlayback && mouthAnimation) {
+    lipSyncEntry.trackTime = mouthTimeForLevel(mouthAnimation, currentPlayback.getLevel());
+  }
+  
   // 更新动画
   animationState.update(deltaSeconds);
   animationState.apply(skeleton);
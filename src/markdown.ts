@@ -0,0 +1,143 @@
+import { openUrl } from "@tauri-apps/plugin-opener";
+
+// 对话框中的 Markdown 子集：段落、列表、代码块、行内代码、粗体、斜体和链接
+// 只创建 DOM 节点、不使用 innerHTML，模型输出的 HTML 会按原样显示为文字
+// 中括号中的动作描写显示为斜体的舞台说明，或者直接去掉
+
+export interface MarkdownOptions {
+  showActions: boolean; // 显示动作描写，为 false 时去掉
+}
+
+// 行内元素：`代码`、**粗体**、[文字](链接)、[动作]、【动作】、*斜体*、裸链接
+const INLINE_PATTERN = /`([^`]+)`|\*\*([^*]+)\*\*|\[([^\]]+)\]\(([^)\s]+)\)|\[([^\]]*)\]|【([^】]*)】|\*([^*\s][^*]*)\*|(https?:\/\/[^\s<>()]+)/g;
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const CODE_FENCE_PATTERN = /^\s*```/;
+
+// 只允许打开网页和邮件链接
+function isSafeLink(url: string): boolean {
+  return /^(https?:|mailto:)/i.test(url);
+}
+
+function createLink(text: string, url: string): HTMLElement {
+  if (!isSafeLink(url)) {
+    const span = document.createElement("span");
+    span.textContent = text;
+    return span;
+  }
+  const link = document.createElement("a");
+  link.className = "msg-link";
+  link.textContent = text;
+  link.href = url;
+  link.title = url;
+  // 用系统浏览器打开，不在 WebView 中跳转
+  link.addEventListener("click", (e) => {
+    e.preventDefault();
+    openUrl(url).catch(err => console.error("Failed to open link:", err));
+  });
+  return link;
+}
+
+function appendInline(parent: HTMLElement, text: string, options: MarkdownOptions) {
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      parent.appendChild(document.createTextNode(text.slice(last, index)));
+    }
+    last = index + match[0].length;
+
+    const [, code, bold, linkText, linkUrl, action, fullWidthAction, italic, bareUrl] = match;
+    if (code !== undefined) {
+      const element = document.createElement("code");
+      element.textContent = code;
+      parent.appendChild(element);
+    } else if (bold !== undefined) {
+      const element = document.createElement("strong");
+      appendInline(element, bold, options);
+      parent.appendChild(element);
+    } else if (linkText !== undefined) {
+      parent.appendChild(createLink(linkText, linkUrl));
+    } else if (action !== undefined || fullWidthAction !== undefined) {
+      if (options.showActions) {
+        const element = document.createElement("span");
+        element.className = "msg-action";
+        element.textContent = (action ?? fullWidthAction).trim();
+        parent.appendChild(element);
+      }
+    } else if (italic !== undefined) {
+      const element = document.createElement("em");
+      appendInline(element, italic, options);
+      parent.appendChild(element);
+    } else if (bareUrl !== undefined) {
+      parent.appendChild(createLink(bareUrl, bareUrl));
+    }
+  }
+  if (last < text.length) {
+    parent.appendChild(document.createTextNode(text.slice(last)));
+  }
+}
+
+// 把文本渲染为 DOM 片段
+export function renderMarkdown(text: string, options: MarkdownOptions): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  const lines = text.split("\n");
+  let paragraph: string[] = [];
+  let list: HTMLElement | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const element = document.createElement("p");
+    paragraph.forEach((line, i) => {
+      if (i > 0) element.appendChild(document.createElement("br"));
+      appendInline(element, line, options);
+    });
+    // 只有被去掉的动作描写时不留空段落
+    if (element.textContent?.trim()) {
+      fragment.appendChild(element);
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // 代码块（没有闭合时一直到末尾，流式输出中常见）
+    if (CODE_FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      list = null;
+      const codeLines: string[] = [];
+      for (i++; i < lines.length && !CODE_FENCE_PATTERN.test(lines[i]); i++) {
+        codeLines.push(lines[i]);
+      }
+      const pre = document.createElement("pre");
+      const code = document.createElement("code");
+      code.textContent = codeLines.join("\n");
+      pre.appendChild(code);
+      fragment.appendChild(pre);
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      flushParagraph();
+      const tag = item[1] ? "UL" : "OL";
+      if (!list || list.tagName !== tag) {
+        list = document.createElement(tag.toLowerCase());
+        fragment.appendChild(list);
+      }
+      const li = document.createElement("li");
+      appendInline(li, item[3], options);
+      list.appendChild(li);
+      continue;
+    }
+
+    list = null;
+    if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return fragment;
+}
@@ -0,0 +1,99 @@
+import { invoke } from "@tauri-apps/api/core";
+import type { ServiceRef } from "./backendFetch";
+import { createChatCompletion } from "./chatCompletion";
+
+// 关于老师的一条长期记忆
+export interface MemoryFact {
+  id: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 一次记忆整理的结果
+export interface MemoryUpdate {
+  summary: string;  // 合并后的对话摘要
+  facts: string[];  // 新发现的关于老师的事实
+}
+
+// 生成系统提示词时附加的记忆内容
+export interface PromptMemory {
+  facts: string[];
+  summary: string;
+}
+
+export async function getMemoryFacts(): Promise<MemoryFact[]> {
+  try {
+    return await invoke<MemoryFact[]>("get_memory_facts");
+  } catch (e) {
+    console.error("Failed to load memory facts:", e);
+    return [];
+  }
+}
+
+export async function addMemoryFacts(contents: string[]): Promise<MemoryFact[]> {
+  return invoke<MemoryFact[]>("add_memory_facts", { contents });
+}
+
+export async function updateMemoryFact(id: string, content: string): Promise<void> {
+  await invoke("update_memory_fact", { id, content });
+}
+
+export async function deleteMemoryFact(id: string): Promise<void> {
+  await invoke("delete_memory_fact", { id });
+}
+
+// 记忆整理提示词
+const MEMORY_PROMPT = `你是对话记忆整理助手。下面给出角色与老师之间较早的一段对话，以及之前的对话摘要和已经记住的关于老师的信息。
+
+请完成两件事：
+1. 把之前的摘要和这段对话合并成新的摘要，不超过 200 字，保留重要的事件、约定和情绪变化。
+2. 提取关于老师的长期有效的信息（例如名字、作息、喜好、重要安排），每条一句话，只输出已知信息中没有的新内容，没有则为空数组。
+
+只输出 JSON，不要输出其他内容：{"summary": "...", "facts": ["..."]}`;
+
+// 从回复中取出 JSON（兼容模型额外输出的代码块或说明文字）
+function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("记忆整理结果不是 JSON");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+// 让 LLM 把移出上下文的对话合并进摘要，并提取新的事实
+export async function summarizeConversation(
+  service: ServiceRef,
+  model: string,
+  previousSummary: string,
+  knownFacts: string[],
+  dropped: Array<{ role: string; content: string }>
+): Promise<MemoryUpdate> {
+  const transcript = dropped
+    .map(m => `${m.role === "user" ? "老师" : "角色"}: ${m.content}`)
+    .join("\n");
+
+  const input = `# 之前的摘要
+${previousSummary || "（无）"}
+
+# 已知的老师信息
+${knownFacts.length > 0 ? knownFacts.map(f => `- ${f}`).join("\n") : "（无）"}
+
+# 对话
+${transcript}`;
+
+  const completion = await createChatCompletion(service, {
+    model,
+    messages: [
+      { role: "system", content: MEMORY_PROMPT },
+      { role: "user", content: input }
+    ],
+  });
+
+  const result = extractJson(completion.choices[0]?.message?.content ?? "") as Partial<MemoryUpdate>;
+  return {
+    summary: typeof result.summary === "string" ? result.summary.trim() : previousSummary,
+    facts: Array.isArray(result.facts) ? result.facts.filter((f): f is string => typeof f === "string") : []
+  };
+}
@@ -0,0 +1,219 @@
+import { invoke } from "@tauri-apps/api/core";
+
+// 角色设定和回复格式中的模板：
+//   {变量}                         替换为变量的值，不认识的 {xxx} 原样保留（如回复格式里的 {mood}）
+//   {#if 变量}…{else}…{/if}        变量不为空时使用前一段，否则使用 {else} 后的一段（可省略）
+//   {#if !变量} / {#if 变量 == 值} / {#if 变量 != 值}
+
+// 可用的变量和说明
+export const PROMPT_VARIABLES: Record<string, string> = {
+  date: "日期",
+  time: "时间",
+  weekday: "星期",
+  time_of_day: "时段（早上、中午、晚上等）",
+  season: "季节",
+  solar_term: "节气（当天不是节气时为空）",
+  user_name: "对老师的称呼",
+  active_window: "老师正在使用的窗口",
+  memory: "长期记忆和对话摘要（不写时附加在角色设定之后）",
+  mood_space: "当前角色的心情列表"
+};
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string; source: string }
+  | { type: "if"; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+type IfNode = Extract<TemplateNode, { type: "if" }>;
+
+const TAG_PATTERN = /\{(#if\s+[^{}\n]+?|else|\/if|[a-z_]+)\}/g;
+const CONDITION_PATTERN = /^(!?)([a-z_]+)(?:\s*(==|!=)\s*(.+))?$/;
+
+// 解析模板，标签不配对时记录问题并把多余的标签当作文字
+function parseTemplate(template: string): { nodes: TemplateNode[]; errors: string[] } {
+  const nodes: TemplateNode[] = [];
+  const errors: string[] = [];
+  const stack: { node: IfNode; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return nodes;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > last) {
+      current().push({ type: "text", text: template.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const tag = match[1];
+    const top = stack[stack.length - 1];
+    if (tag.startsWith("#if")) {
+      const condition = tag.slice(3).trim();
+      const parsed = CONDITION_PATTERN.exec(condition);
+      if (!parsed) {
+        errors.push(`无法识别的条件 {#if ${condition}}`);
+      } else if (!(parsed[2] in PROMPT_VARIABLES)) {
+        errors.push(`条件中的变量 ${parsed[2]} 不存在`);
+      }
+      const node: IfNode = { type: "if", condition, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === "else") {
+      if (top && !top.inElse) {
+        top.inElse = true;
+      } else {
+        errors.push("多余的 {else}");
+        current().push({ type: "text", text: match[0] });
+      }
+    } else if (tag === "/if") {
+      if (top) {
+        stack.pop();
+      } else {
+        errors.push("多余的 {/if}");
+        current().push({ type: "text", text: match[0] });
+      }
+    } else {
+      current().push({ type: "variable", name: tag, source: match[0] });
+    }
+  }
+  if (last < template.length) {
+    current().push({ type: "text", text: template.slice(last) });
+  }
+  if (stack.length > 0) {
+    errors.push(`有 ${stack.length} 个 {#if} 缺少 {/if}`);
+  }
+  return { nodes, errors };
+}
+
+function evaluateCondition(condition: string, variables: Record<string, string>): boolean {
+  const match = CONDITION_PATTERN.exec(condition);
+  if (!match) return false;
+  const [, negate, name, operator, expected] = match;
+  const value = variables[name] ?? "";
+  if (operator) {
+    return (value === expected.trim()) === (operator === "==");
+  }
+  return (value !== "") !== (negate === "!");
+}
+
+function renderNodes(nodes: TemplateNode[], variables: Record<string, string>): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "variable":
+        return variables[node.name] ?? node.source;
+      case "if":
+        return renderNodes(evaluateCondition(node.condition, variables) ? node.then : node.otherwise, variables);
+    }
+  }).join("");
+}
+
+// 按变量渲染模板
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return renderNodes(parseTemplate(template).nodes, variables);
+}
+
+// 模板中的问题（标签不配对、条件写错），用于设置窗口的提示
+export function findTemplateErrors(template: string): string[] {
+  return parseTemplate(template).errors;
+}
+
+// 模板是否用到了某个变量（作为 {变量} 或条件）
+export function templateUsesVariable(template: string, name: string): boolean {
+  return new RegExp(`\\{(#if\\s+!?)?${name}\\b`).test(template);
+}
+
+const WEEKDAYS = ["星期日", "星期一", "星期二", "星期三", "星期四", "星期五", "星期六"];
+
+// 每个月的两个节气和 21 世纪的 C 值（寿星公式：日 = [Y × 0.2422 + C] - [Y / 4]，Y 为年份后两位）
+// 一、二月的节气闰年数按 (Y - 1) / 4 计算；个别年份会差一天
+const SOLAR_TERMS: [string, number][][] = [
+  [["小寒", 5.4055], ["大寒", 20.12]],
+  [["立春", 3.87], ["雨水", 18.73]],
+  [["惊蛰", 5.63], ["春分", 20.646]],
+  [["清明", 4.81], ["谷雨", 20.1]],
+  [["立夏", 5.52], ["小满", 21.04]],
+  [["芒种", 5.678], ["夏至", 21.37]],
+  [["小暑", 7.108], ["大暑", 22.83]],
+  [["立秋", 7.5], ["处暑", 23.13]],
+  [["白露", 7.646], ["秋分", 23.042]],
+  [["寒露", 8.318], ["霜降", 23.438]],
+  [["立冬", 7.438], ["小雪", 22.36]],
+  [["大雪", 7.18], ["冬至", 21.94]]
+];
+
+// 当天的节气，不是节气时为空
+function solarTerm(date: Date): string {
+  const year = date.getFullYear() % 100;
+  const month = date.getMonth();
+  const leapYears = Math.floor((month < 2 ? year - 1 : year) / 4);
+  const term = SOLAR_TERMS[month].find(([, c]) => Math.floor(year * 0.2422 + c) - leapYears === date.getDate());
+  return term ? term[0] : "";
+}
+
+function season(date: Date): string {
+  return ["冬天", "春天", "夏天", "秋天"][Math.floor(((date.getMonth() + 1) % 12) / 3)];
+}
+
+function timeOfDay(date: Date): string {
+  const hour = date.getHours();
+  if (hour < 5) return "凌晨";
+  if (hour < 9) return "早上";
+  if (hour < 11) return "上午";
+  if (hour < 13) return "中午";
+  if (hour < 18) return "下午";
+  if (hour < 23) return "晚上";
+  return "深夜";
+}
+
+// 生成系统提示时的变量来源
+export interface PromptContext {
+  now: Date;
+  userName: string;
+  activeWindow: string;
+  memory: string;
+  moodList: string;
+}
+
+export function buildPromptVariables(context: PromptContext): Record<string, string> {
+  const { now } = context;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return {
+    date: `${now.getFullYear()}年${now.getMonth() + 1}月${now.getDate()}日`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    weekday: WEEKDAYS[now.getDay()],
+    time_of_day: timeOfDay(now),
+    season: season(now),
+    solar_term: solarTerm(now),
+    user_name: context.userName,
+    active_window: context.activeWindow,
+    memory: context.memory,
+    mood_space: context.moodList
+  };
+}
+
+// 粗略估计 token 数：中日文约每字 1 个 token，其他文字约 4 个字符 1 个 token
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+// 开始或停止在后台记录前台窗口（模板用到 active_window 时才需要）
+export function setActiveWindowTracking(enabled: boolean) {
+  invoke("set_active_window_tracking", { enabled }).catch((e) => {
+    console.error("Failed to set active window tracking:", e);
+  });
+}
+
+// 老师正在使用的窗口（不包括桌宠自己），无法获取时为空
+export async function getActiveWindowTitle(): Promise<string> {
+  try {
+    return await invoke<string>("get_active_window_title");
+  } catch (e) {
+    console.error("Failed to get active window title:", e);
+    return "";
+  }
+}
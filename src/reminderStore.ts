@@ -0,0 +1,27 @@
+import { invoke } from "@tauri-apps/api/core";
+
+// 提醒，由 Rust 端保存并在到时间时发出 reminder-fired 事件
+export interface Reminder {
+  id: string;
+  message: string;
+  dueAt: number;          // 下次提醒的时间（毫秒时间戳）
+  repeatMinutes: number;  // 重复间隔（分钟），0 表示只提醒一次
+  createdAt: number;
+}
+
+export async function getReminders(): Promise<Reminder[]> {
+  try {
+    return await invoke<Reminder[]>("get_reminders");
+  } catch (e) {
+    console.error("Failed to load reminders:", e);
+    return [];
+  }
+}
+
+export async function addReminder(message: string, dueAt: number, repeatMinutes = 0): Promise<Reminder> {
+  return invoke<Reminder>("add_reminder", { message, dueAt, repeatMinutes });
+}
+
+export async function deleteReminder(id: string): Promise<void> {
+  await invoke("delete_reminder", { id });
+}
@@ -0,0 +1,224 @@
+// 解析 LLM 回复格式: {心情} | 中文回复 | 日文回复
+// 中括号中的动作描写保留在文本中，显示时再决定显示、隐藏还是转为动画
+export interface ParsedReply {
+  mood: string;
+  chinese: string;
+  japanese: string;
+}
+
+// 流式解析的中间结果
+export interface PartialReply {
+  mood: string;         // 已确定的心情（第一个 | 到达之前为空）
+  chinese: string;      // 目前为止的中文回复
+  japanese: string;     // 目前为止的日文回复
+  moodResolved: boolean; // 心情段是否已经结束（收到第一个 | 或判定为无心情格式）
+}
+
+// 心情名的最大长度，超过此长度仍未出现 | 时视为没有心情前缀
+const MAX_MOOD_LENGTH = 8;
+
+// 动作描写：英文中括号 [...] 和中文中括号 【...】，不包括 Markdown 链接 [文字](地址)
+const ACTION_PATTERN = /\[([^\]]*)\](?!\()|【([^】]*)】/g;
+
+// 整理文本：保留换行和缩进（Markdown 的列表和代码块需要）
+function cleanText(text: string): string {
+  return text.replace(/\r\n/g, '\n').trim();
+}
+
+// 流式场景下先去掉尚未闭合的中括号（后半段还没到）
+function cleanPartialText(text: string): string {
+  return cleanText(
+    text
+      .replace(/\[[^\]]*$/, '')
+      .replace(/【[^】]*$/, '')
+  );
+}
+
+// 文本中的动作描写
+export function extractActions(text: string): string[] {
+  return [...text.matchAll(ACTION_PATTERN)].map(match => (match[1] ?? match[2]).trim()).filter(Boolean);
+}
+
+// 去掉动作描写（朗读和隐藏动作时使用）
+export function stripActions(text: string): string {
+  return cleanText(text.replace(ACTION_PATTERN, ''));
+}
+
+// 动作描写中提到的心情，如 [开心地笑] 对应「开心」；多个心情匹配时取最长的名称
+export function findActionMood(actions: string[], moods: string[]): string {
+  for (const action of actions) {
+    const matched = moods.filter(mood => action.includes(mood)).sort((a, b) => b.length - a.length);
+    if (matched.length > 0) return matched[0];
+  }
+  return '';
+}
+
+// 清理心情段的括号
+function cleanMood(text: string): string {
+  return text.replace(/[{}（）()]/g, '').trim();
+}
+
+export function parseReply(rawReply: string): ParsedReply {
+  // 尝试按 | 分割
+  const parts = rawReply.split('|').map(p => p.trim());
+
+  if (parts.length >= 3) {
+    // 标准格式: {心情} | 中文回复 | 日文回复
+    return {
+      mood: parts[0].replace(/[{}]/g, '').trim(),
+      chinese: cleanText(parts[1]),
+      japanese: cleanText(parts[2])
+    };
+  } else if (parts.length === 2) {
+    // 两部分: 可能是 {心情} | 回复 或 中文 | 日文
+    const first = parts[0];
+    if (first.startsWith('{') || first.startsWith('（') || first.startsWith('(')) {
+      return {
+        mood: cleanMood(first),
+        chinese: cleanText(parts[1]),
+        japanese: ''
+      };
+    } else {
+      return {
+        mood: '',
+        chinese: cleanText(parts[0]),
+        japanese: cleanText(parts[1])
+      };
+    }
+  } else {
+    // 单独的回复，没有分隔符
+    return {
+      mood: '',
+      chinese: cleanText(rawReply),
+      japanese: ''
+    };
+  }
+}
+
+// 解析尚未接收完整的回复（流式输出时每收到一段就调用一次）
+// 第一个 | 到达后立即确定心情，之后的内容按中文、日文依次填充
+export function parsePartialReply(buffer: string): PartialReply {
+  const parts = buffer.split('|');
+
+  if (parts.length === 1) {
+    // 还没有分隔符：可能是心情段，也可能是没有按格式输出的普通回复
+    const head = cleanMood(buffer);
+    if (head.length <= MAX_MOOD_LENGTH) {
+      return { mood: '', chinese: '', japanese: '', moodResolved: false };
+    }
+    return { mood: '', chinese: cleanPartialText(buffer), japanese: '', moodResolved: true };
+  }
+
+  const first = parts[0].trim();
+
+  // 第一段过长，说明不是心情而是 中文 | 日文 格式
+  if (cleanMood(first).length > MAX_MOOD_LENGTH) {
+    return {
+      mood: '',
+      chinese: cleanText(first),
+      japanese: cleanPartialText(parts.slice(1).join(' ')),
+      moodResolved: true
+    };
+  }
+
+  return {
+    mood: cleanMood(first),
+    chinese: parts.length === 2 ? cleanPartialText(parts[1]) : cleanText(parts[1]),
+    japanese: parts.length >= 3 ? cleanPartialText(parts.slice(2).join(' ')) : '',
+    moodResolved: true
+  };
+}
+
+// 回复格式模式：pipe 为 {心情} | 中文 | 日文，json 为结构化输出
+export type ReplyMode = "pipe" | "json";
+
+// 结构化回复的 JSON Schema，心情限定为可用的心情名称
+export function buildReplySchema(moods: string[]) {
+  return {
+    type: "object",
+    properties: {
+      mood: { type: "string", enum: moods },
+      chinese: { type: "string" },
+      japanese: { type: "string" }
+    },
+    required: ["mood", "chinese", "japanese"],
+    additionalProperties: false
+  };
+}
+
+// 解析 JSON 结构化回复，不是合法 JSON 时返回 null
+export function parseStructuredReply(rawReply: string): ParsedReply | null {
+  const start = rawReply.indexOf('{');
+  const end = rawReply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const data = JSON.parse(rawReply.slice(start, end + 1));
+    if (typeof data?.chinese !== 'string') return null;
+    return {
+      mood: typeof data.mood === 'string' ? data.mood.trim() : '',
+      chinese: cleanText(data.chinese),
+      japanese: typeof data.japanese === 'string' ? cleanText(data.japanese) : ''
+    };
+  } catch {
+    return null;
+  }
+}
+
+// 按模式解析回复，JSON 解析失败时退回 | 分隔格式
+export function parseReplyWithMode(rawReply: string, mode: ReplyMode): ParsedReply {
+  if (mode === "json") {
+    const structured = parseStructuredReply(rawReply);
+    if (structured) return structured;
+    console.warn(`Structured reply is not valid JSON (${rawReply.length} chars), falling back to pipe format`);
+  }
+  return parseReply(rawReply);
+}
+
+// 从不完整的 JSON 中读取字符串字段（字段值可能还没接收完）
+function readPartialJsonString(buffer: string, key: string): { value: string; complete: boolean } | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(\\\\?)("?)`).exec(buffer);
+  if (!match) return null;
+
+  const escaped = match[1];
+  let value: string;
+  try {
+    value = JSON.parse(`"${escaped}"`);
+  } catch {
+    // 转义序列不完整（如 \u 只收到一半），先去掉反斜杠显示
+    value = escaped.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/\\(.)/g, '$1');
+  }
+  return { value, complete: match[3] === '"' };
+}
+
+// 流式解析 JSON 结构化回复，模型没有输出 JSON 时按 | 分隔格式解析
+export function parsePartialStructuredReply(buffer: string): PartialReply {
+  const trimmed = buffer.trimStart();
+  const looksLikeJson = trimmed.startsWith('`') || /^\{\s*("|$)/.test(trimmed);
+  if (trimmed && !looksLikeJson) {
+    return parsePartialReply(buffer);
+  }
+
+  const mood = readPartialJsonString(buffer, "mood");
+  const chinese = readPartialJsonString(buffer, "chinese");
+  const japanese = readPartialJsonString(buffer, "japanese");
+
+  return {
+    mood: mood?.complete ? mood.value.trim() : '',
+    chinese: chinese ? (chinese.complete ? cleanText(chinese.value) : cleanPartialText(chinese.value)) : '',
+    japanese: japanese ? cleanPartialText(japanese.value) : '',
+    moodResolved: mood?.complete ?? false
+  };
+}
+
+// 格式化显示回复
+export function formatReplyForDisplay(parsed: ParsedReply): string {
+  let result = parsed.chinese;
+
+  // 如果有日文，添加到下一行
+  // if (parsed.japanese) {
+  //   result += '\n' + parsed.japanese;
+  // }
+
+  return result;
+}
@@ -1,6 +1,58 @@
 import { getCurrentWindow } from "@tauri-apps/api/window";
-import { emit } from "@tauri-apps/api/event";
-import { loadSettings, saveSettings, DEFAULT_SETTINGS, type Settings } from "./settingsStore";
+import { emit, listen } from "@tauri-apps/api/event";
+import { open } from "@tauri-apps/plugin-dialog";
+import {
+  loadSettings,
+  saveSettings,
+  getActiveProfile,
+  generateSystemPrompt,
+  getSettingsNotice,
+  getPlatformNotice,
+  getSecretStorage,
+  promptUsesVariable,
+  DEFAULT_SETTINGS,
+  type ActionDisplay,
+  type BubbleLanguage,
+  type LlmProfile,
+  type SecretStorage,
+  type Settings
+} from "./settingsStore";
+import type { ReplyMode } from "./replyParser";
+import {
+  validateSettings,
+  SETTINGS_VERSION,
+  VALIDATED_FIELDS,
+  type SettingsError
+} from "./settingsValidation";
+import type { TtsBackendType } from "./tts";
+import { getMemoryFacts, addMemoryFacts, updateMemoryFact, deleteMemoryFact } from "./memoryStore";
+import { getReminders, addReminder, deleteReminder } from "./reminderStore";
+import { estimateTokens, findTemplateErrors, getActiveWindowTitle, PROMPT_VARIABLES } from "./promptTemplate";
+import { listModels, testConnection, isProfileUsable } from "./llmClient";
+import { listSessions, getAllMessages, importSession, getSessionDisplayName, type SessionMeta } from "./historyStore";
+import {
+  exportChat,
+  parseImportedChat,
+  saveChatExport,
+  openChatImport,
+  EXPORT_EXTENSIONS,
+  type ExportFormat
+} from "./chatExport";
+import {
+  listCharacters,
+  importCharacterPack,
+  deleteCharacterPack,
+  BUILTIN_CHARACTER,
+  type CharacterPack
+} from "./characterStore";
+import {
+  formatHotkey,
+  findHotkeyConflicts,
+  getHotkeyErrors,
+  HOTKEY_FIELDS,
+  type HotkeyErrorField,
+  type HotkeyField
+} from "./hotkeys";
 
 // DOM 元素
 let screenHeightRatioInput: HTMLInputElement;
@@ -8,14 +60,106 @@ let paddingInput: HTMLInputElement;
 let fpsLimitInput: HTMLInputElement;
 let dragWRatioInput: HTMLInputElement;
 let dragHRatioInput: HTMLInputElement;
+let pixelHitTestInput: HTMLInputElement;
+let touchLlmReactionsInput: HTMLInputElement;
+let idleProactiveEnabledInput: HTMLInputElement;
+let idleProactiveMinutesInput: HTMLInputElement;
+let quietHoursStartInput: HTMLInputElement;
+let quietHoursEndInput: HTMLInputElement;
+let moodResetMinutesInput: HTMLInputElement;
+let reminderNotificationInput: HTMLInputElement;
+let llmProfileSelect: HTMLSelectElement;
+let llmProfileAddBtn: HTMLButtonElement;
+let llmProfileUpBtn: HTMLButtonElement;
+let llmProfileActivateBtn: HTMLButtonElement;
+let llmProfileDeleteBtn: HTMLButtonElement;
+let llmProfileNameInput: HTMLInputElement;
 let llmBaseUrlInput: HTMLInputElement;
+let llmProfileLocalInput: HTMLInputElement;
 let llmApiKeyInput: HTMLInputElement;
 let llmModelInput: HTMLInputElement;
+let llmModelSelect: HTMLSelectElement;
+let llmModelRefreshBtn: HTMLButtonElement;
+let llmTestBtn: HTMLButtonElement;
+let llmTestResult: HTMLElement;
+let llmTemperatureInput: HTMLInputElement;
+let llmMaxTokensInput: HTMLInputElement;
+let llmHeadersInput: HTMLTextAreaElement;
+let llmStreamInput: HTMLInputElement;
+let replyModeInput: HTMLSelectElement;
+let bubbleLanguageInput: HTMLSelectElement;
+let actionDisplayInput: HTMLSelectElement;
+let memoryEnabledInput: HTMLInputElement;
+let llmToolsEnabledInput: HTMLInputElement;
+let httpProxyInput: HTMLInputElement;
+let llmTimeoutSecondsInput: HTMLInputElement;
+let ttsEnabledInput: HTMLInputElement;
+let ttsBackendInput: HTMLSelectElement;
+let ttsEndpointInput: HTMLInputElement;
+let ttsVoiceInput: HTMLInputElement;
+let ttsVolumeInput: HTMLInputElement;
+let sttEnabledInput: HTMLInputElement;
+let sttBaseUrlInput: HTMLInputElement;
+let sttApiKeyInput: HTMLInputElement;
+let sttModelInput: HTMLInputElement;
+let sttLanguageInput: HTMLInputElement;
+let sttHotkeyInput: HTMLInputElement;
+let sttMouseHoldInput: HTMLInputElement;
+let hotkeyInputs = {} as Record<HotkeyField, HTMLInputElement>;
+let memoryList: HTMLElement;
+let memoryNewInput: HTMLInputElement;
+let memoryAddBtn: HTMLButtonElement;
+let reminderList: HTMLElement;
+let reminderMessageInput: HTMLInputElement;
+let reminderTimeInput: HTMLInputElement;
+let reminderRepeatInput: HTMLSelectElement;
+let reminderAddBtn: HTMLButtonElement;
+let chatExportSessionSelect: HTMLSelectElement;
+let chatExportFormatSelect: HTMLSelectElement;
+let chatExportBtn: HTMLButtonElement;
+let chatImportBtn: HTMLButtonElement;
+let characterSelect: HTMLSelectElement;
+let characterImportDirBtn: HTMLButtonElement;
+let characterImportZipBtn: HTMLButtonElement;
+let characterDeleteBtn: HTMLButtonElement;
+let userNameInput: HTMLInputElement;
 let characterSettingInput: HTMLTextAreaElement;
 let replyFormatInput: HTMLTextAreaElement;
+let promptVariableHint: HTMLElement;
+let promptPreview: HTMLElement;
+let promptPreviewInfo: HTMLElement;
+let promptPreviewTimer: number | undefined;
 let saveBtn: HTMLButtonElement;
 let resetBtn: HTMLButtonElement;
 let toast: HTMLElement;
+let settingsNotice: HTMLElement;
+let platformNotice: HTMLElement;
+let secretStorageHint: HTMLElement;
+
+// 服务配置中的字段对应的输入框（显示正在编辑的服务），错误的字段为 llmProfiles.<下标>.<字段>
+const PROFILE_FIELD_INPUTS: Record<string, string> = {
+  name: "llmProfileName",
+  baseUrl: "llmBaseUrl",
+  model: "llmModel",
+  temperature: "llmTemperature",
+  maxTokens: "llmMaxTokens",
+  headers: "llmHeaders"
+};
+const PROFILE_ERROR_PATTERN = /^llmProfiles\.(\d+)\.(\w+)$/;
+
+// 输入停顿多久后刷新系统提示预览（毫秒）
+const PROMPT_PREVIEW_DELAY = 300;
+
+// 正在编辑的 LLM 服务配置（保存时写回设置）
+let llmProfiles: LlmProfile[] = [];
+let editingProfileId = "";
+let activeProfileId = ""; // 当前使用的服务，只有点「设为当前」才改变，编辑其他服务不影响
+
+// 可选的角色（内置角色 + 已导入的角色包）
+let characters: CharacterPack[] = [];
+
+// 可以导出的对话
+let chatSessions: SessionMeta[] = [];
 
 // 显示提示消息
 function showToast(message: string) {
@@ -26,19 +170,404 @@ function showToast(message: string) {
   }, 2000);
 }
 
+// 数字输入框，为空时为 NaN，由保存前的检查提示
+function parseNumber(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+// 可以为空的数字输入框，为空时为 null，无法解析时为 NaN，由保存前的检查提示
+// type="number" 的输入框中写了无效内容时 value 也是空字符串，用 badInput 区分
+function parseOptionalNumber(input: HTMLInputElement): number | null {
+  if (input.value.trim() === "") {
+    return input.validity.badInput ? NaN : null;
+  }
+  return Number(input.value);
+}
+
+// 自定义请求头的文本（每行「名称: 值」）转为对象，没有冒号的行作为值为空的请求头
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split("\n").forEach(line => {
+    const index = line.indexOf(":");
+    const name = (index < 0 ? line : line.slice(0, index)).trim();
+    if (name) {
+      headers[name] = index < 0 ? "" : line.slice(index + 1).trim();
+    }
+  });
+  return headers;
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join("\n");
+}
+
+// 把表单中的内容写回正在编辑的服务配置
+function commitProfileForm() {
+  const profile = llmProfiles.find(p => p.id === editingProfileId);
+  if (!profile) return;
+  
+  profile.name = llmProfileNameInput.value.trim();
+  profile.baseUrl = llmBaseUrlInput.value.trim();
+  profile.apiKey = llmApiKeyInput.value;
+  profile.local = llmProfileLocalInput.checked;
+  profile.model = llmModelInput.value.trim();
+  profile.temperature = parseOptionalNumber(llmTemperatureInput);
+  profile.maxTokens = parseOptionalNumber(llmMaxTokensInput);
+  profile.headers = parseHeaders(llmHeadersInput.value);
+}
+
+// 把服务配置填充到表单
+function loadProfileForm(profile: LlmProfile) {
+  editingProfileId = profile.id;
+  llmProfileNameInput.value = profile.name;
+  llmBaseUrlInput.value = profile.baseUrl;
+  llmApiKeyInput.value = profile.apiKey;
+  llmProfileLocalInput.checked = profile.local;
+  llmModelInput.value = profile.model;
+  llmTemperatureInput.value = profile.temperature?.toString() ?? "";
+  llmMaxTokensInput.value = profile.maxTokens?.toString() ?? "";
+  llmHeadersInput.value = formatHeaders(profile.headers);
+  // 模型列表属于之前的服务，切换后需要重新获取
+  llmModelSelect.hidden = true;
+  updateApiKeyPlaceholder();
+}
+
+function updateApiKeyPlaceholder() {
+  llmApiKeyInput.placeholder = llmProfileLocalInput.checked ? "本地服务可以留空" : "sk-...";
+}
+
+// 查询正在编辑的服务提供的模型，填入下拉框
+async function refreshModelList() {
+  commitProfileForm();
+  const profile = llmProfiles.find(p => p.id === editingProfileId);
+  if (!profile) return;
+  
+  llmModelRefreshBtn.disabled = true;
+  try {
+    const models = await listModels(profile);
+    llmModelSelect.innerHTML = "";
+    const placeholder = document.createElement("option");
+    placeholder.value = "";
+    placeholder.textContent = `选择模型（${models.length} 个）`;
+    llmModelSelect.appendChild(placeholder);
+    models.forEach((model) => {
+      const option = document.createElement("option");
+      option.value = model;
+      option.textContent = model;
+      llmModelSelect.appendChild(option);
+    });
+    llmModelSelect.value = models.includes(profile.model) ? profile.model : "";
+    llmModelSelect.hidden = models.length === 0;
+    showToast(models.length > 0 ? `✓ 找到 ${models.length} 个模型` : "服务没有返回模型");
+  } catch (e) {
+    console.error("Failed to list models:", e);
+    showToast(`获取模型失败: ${e instanceof Error ? e.message : e}`);
+  } finally {
+    llmModelRefreshBtn.disabled = false;
+  }
+}
+
+// 用表单中的设置测试正在编辑的服务：延迟和回复是否符合心情格式
+async function testLlmConnection() {
+  const settings = getFormValues();
+  const profile = settings.llmProfiles.find(p => p.id === editingProfileId) ?? getActiveProfile(settings);
+  if (!isProfileUsable(profile)) {
+    llmTestResult.textContent = "❌ 请填写 API Key，或勾选本地服务";
+    return;
+  }
+  
+  const character = characters.find(c => c.id === settings.characterId) ?? BUILTIN_CHARACTER;
+  const moods = Object.keys(character.moods);
+  llmTestBtn.disabled = true;
+  llmTestResult.textContent = `正在测试 ${profile.name}（${profile.model}）...`;
+  try {
+    const result = await testConnection(
+      profile,
+      (replyMode) => generateSystemPrompt({ ...settings, replyMode }, undefined, moods),
+      settings.replyMode,
+      moods
+    );
+    const fallback = result.replyMode !== settings.replyMode ? "；该服务不支持结构化输出，对话时会改用 | 分隔格式" : "";
+    llmTestResult.textContent = result.formatValid
+      ? `✓ 连接成功，用时 ${result.latencyMs} ms，回复格式正确（心情：${result.parsed.mood}）${fallback}`
+      : `⚠️ 连接成功，用时 ${result.latencyMs} ms，但回复不符合心情格式：${result.raw.slice(0, 100)}${fallback}`;
+  } catch (e) {
+    console.error("Connection test failed:", e);
+    llmTestResult.textContent = `❌ 连接失败: ${e instanceof Error ? e.message : e}`;
+  } finally {
+    llmTestBtn.disabled = false;
+  }
+}
+
+// 渲染服务配置下拉框（顺序即备用顺序，当前使用的服务带上标记）
+function renderProfileSelect() {
+  llmProfileSelect.innerHTML = "";
+  llmProfiles.forEach((profile, index) => {
+    const option = document.createElement("option");
+    option.value = profile.id;
+    option.textContent = `${index + 1}. ${profile.name}${profile.id === activeProfileId ? "（当前）" : ""}`;
+    llmProfileSelect.appendChild(option);
+  });
+  llmProfileSelect.value = editingProfileId;
+  llmProfileActivateBtn.disabled = editingProfileId === activeProfileId;
+  llmProfileDeleteBtn.disabled = llmProfiles.length <= 1;
+  llmProfileUpBtn.disabled = llmProfiles.findIndex(p => p.id === editingProfileId) <= 0;
+}
+
+// 设置服务配置的新增、删除、排序
+function setupProfileControls() {
+  llmProfileSelect.addEventListener("change", () => {
+    commitProfileForm();
+    const profile = llmProfiles.find(p => p.id === llmProfileSelect.value);
+    if (profile) {
+      loadProfileForm(profile);
+    }
+    renderProfileSelect();
+  });
+  
+  // 名称修改后同步到下拉框
+  llmProfileNameInput.addEventListener("change", () => {
+    commitProfileForm();
+    renderProfileSelect();
+  });
+  
+  llmProfileAddBtn.addEventListener("click", () => {
+    commitProfileForm();
+    const profile: LlmProfile = {
+      ...DEFAULT_SETTINGS.llmProfiles[0],
+      id: Date.now().toString(),
+      name: `服务 ${llmProfiles.length + 1}`
+    };
+    llmProfiles.push(profile);
+    loadProfileForm(profile);
+    renderProfileSelect();
+  });
+  
+  llmProfileUpBtn.addEventListener("click", () => {
+    commitProfileForm();
+    const index = llmProfiles.findIndex(p => p.id === editingProfileId);
+    if (index <= 0) return;
+    [llmProfiles[index - 1], llmProfiles[index]] = [llmProfiles[index], llmProfiles[index - 1]];
+    renderProfileSelect();
+  });
+  
+  llmProfileActivateBtn.addEventListener("click", () => {
+    activeProfileId = editingProfileId;
+    renderProfileSelect();
+  });
+  
+  llmProfileDeleteBtn.addEventListener("click", () => {
+    if (llmProfiles.length <= 1) return;
+    const index = llmProfiles.findIndex(p => p.id === editingProfileId);
+    llmProfiles.splice(index, 1);
+    // 删除了当前服务时改用列表中的第一个
+    if (!llmProfiles.some(p => p.id === activeProfileId)) {
+      activeProfileId = llmProfiles[0].id;
+    }
+    loadProfileForm(llmProfiles[Math.max(0, index - 1)]);
+    renderProfileSelect();
+  });
+  
+  // 勾选本地服务时直接查询模型
+  llmProfileLocalInput.addEventListener("change", () => {
+    updateApiKeyPlaceholder();
+    if (llmProfileLocalInput.checked) {
+      refreshModelList().catch(console.error);
+    }
+  });
+  
+  llmModelRefreshBtn.addEventListener("click", () => {
+    refreshModelList().catch(console.error);
+  });
+  
+  llmModelSelect.addEventListener("change", () => {
+    if (llmModelSelect.value) {
+      llmModelInput.value = llmModelSelect.value;
+    }
+  });
+  
+  llmTestBtn.addEventListener("click", () => {
+    testLlmConnection().catch(console.error);
+  });
+}
+
+// 渲染角色下拉框，内置角色不能删除
+async function renderCharacterSelect(selectedId: string) {
+  characters = await listCharacters();
+  characterSelect.innerHTML = "";
+  characters.forEach((character) => {
+    const option = document.createElement("option");
+    option.value = character.id;
+    option.textContent = character.name;
+    characterSelect.appendChild(option);
+  });
+  characterSelect.value = characters.some(c => c.id === selectedId) ? selectedId : BUILTIN_CHARACTER.id;
+  characterDeleteBtn.disabled = characterSelect.value === BUILTIN_CHARACTER.id;
+}
+
+// 把角色包中的人设和回复格式填入表单
+function loadCharacterPrompt(character: CharacterPack) {
+  characterSettingInput.value = character.characterSetting;
+  replyFormatInput.value = character.replyFormat;
+}
+
+// 按表单中的设置渲染系统提示预览，记忆使用已保存的记忆（不含对话摘要）
+async function renderPromptPreview() {
+  const settings = getFormValues();
+  const character = characters.find(c => c.id === settings.characterId) ?? BUILTIN_CHARACTER;
+  const memory = settings.memoryEnabled
+    ? { facts: (await getMemoryFacts()).map(f => f.content), summary: "" }
+    : undefined;
+  const activeWindow = promptUsesVariable(settings, "active_window") ? await getActiveWindowTitle() : "";
+  const prompt = generateSystemPrompt(settings, memory, Object.keys(character.moods), activeWindow);
+  promptPreview.textContent = prompt;
+
+  const errors = [
+    ...findTemplateErrors(settings.characterSetting).map(e => `角色设定：${e}`),
+    ...findTemplateErrors(settings.replyFormat).map(e => `回复格式：${e}`)
+  ];
+  promptPreviewInfo.textContent = [
+    `约 ${estimateTokens(prompt)} tokens（${prompt.length} 字）`,
+    ...errors.map(e => `⚠️ ${e}`)
+  ].join("　");
+}
+
+// 输入停顿后再刷新预览
+function schedulePromptPreview() {
+  window.clearTimeout(promptPreviewTimer);
+  promptPreviewTimer = window.setTimeout(() => {
+    renderPromptPreview().catch(console.error);
+  }, PROMPT_PREVIEW_DELAY);
+}
+
+// 列出模板变量，修改人设、回复格式等影响提示词的设置时刷新预览
+function setupPromptPreview() {
+  const variables = Object.entries(PROMPT_VARIABLES).map(([name, description]) => `{${name}} ${description}`);
+  promptVariableHint.textContent = `可用变量：${variables.join("；")}。`
+    + "条件：{#if 变量}…{else}…{/if}，也可以写 {#if !变量}、{#if time_of_day == 中午}";
+
+  [userNameInput, characterSettingInput, replyFormatInput].forEach(input => {
+    input.addEventListener("input", schedulePromptPreview);
+  });
+  [characterSelect, replyModeInput, memoryEnabledInput].forEach(input => {
+    input.addEventListener("change", schedulePromptPreview);
+  });
+}
+
+// API Key 的保存方式说明
+const SECRET_STORAGE_HINTS: Record<SecretStorage, string> = {
+  keyring: "API Key 保存在系统密钥环中，设置文件里只有占位符",
+  file: "没有可用的系统密钥环，API Key 混淆后保存在应用数据目录的 secrets.bin。这不是加密，能读取该文件的人可以还原 Key",
+  unavailable: "⚠️ 系统密钥环暂时不可用，已保存的 API Key 保持不变，但现在不能修改。请确认密钥环已解锁后重启"
+};
+
+async function renderSecretStorageHint() {
+  try {
+    secretStorageHint.textContent = SECRET_STORAGE_HINTS[await getSecretStorage()];
+  } catch (e) {
+    console.error("Failed to get secret storage:", e);
+  }
+}
+
+// 从文件夹或 zip 文件导入角色包
+async function importCharacter(directory: boolean) {
+  const path = await open(directory
+    ? { directory: true, title: "选择角色包文件夹" }
+    : { title: "选择角色包", filters: [{ name: "角色包", extensions: ["zip"] }] });
+  if (typeof path !== "string") return;
+  
+  try {
+    const character = await importCharacterPack(path);
+    await renderCharacterSelect(character.id);
+    loadCharacterPrompt(character);
+    // 重新导入了正在使用的角色时，主窗口需要重新加载资源
+    await emit("character-packs-updated", character.id);
+    showToast(`✓ 已导入 ${character.name}`);
+  } catch (e) {
+    console.error("Failed to import character pack:", e);
+    showToast(`导入失败: ${e}`);
+  }
+}
+
+// 设置角色的切换、导入和删除
+function setupCharacterControls() {
+  characterSelect.addEventListener("change", () => {
+    const character = characters.find(c => c.id === characterSelect.value);
+    if (character) {
+      loadCharacterPrompt(character);
+    }
+    characterDeleteBtn.disabled = characterSelect.value === BUILTIN_CHARACTER.id;
+  });
+  
+  characterImportDirBtn.addEventListener("click", () => {
+    importCharacter(true).catch(console.error);
+  });
+  characterImportZipBtn.addEventListener("click", () => {
+    importCharacter(false).catch(console.error);
+  });
+  
+  characterDeleteBtn.addEventListener("click", async () => {
+    const id = characterSelect.value;
+    if (id === BUILTIN_CHARACTER.id) return;
+    try {
+      await deleteCharacterPack(id);
+    } catch (e) {
+      showToast(`删除失败: ${e}`);
+      return;
+    }
+    await renderCharacterSelect(BUILTIN_CHARACTER.id);
+    loadCharacterPrompt(BUILTIN_CHARACTER);
+    showToast("已删除角色包，保存后生效");
+  });
+}
+
 // 从表单获取设置值
 function getFormValues(): Settings {
+  commitProfileForm();
   return {
-    screenHeightRatio: parseFloat(screenHeightRatioInput.value) || DEFAULT_SETTINGS.screenHeightRatio,
-    padding: parseInt(paddingInput.value) || DEFAULT_SETTINGS.padding,
-    fpsLimit: parseInt(fpsLimitInput.value) || DEFAULT_SETTINGS.fpsLimit,
-    dragWRatio: parseFloat(dragWRatioInput.value) || DEFAULT_SETTINGS.dragWRatio,
-    dragHRatio: parseFloat(dragHRatioInput.value) || DEFAULT_SETTINGS.dragHRatio,
-    llmBaseUrl: llmBaseUrlInput.value || DEFAULT_SETTINGS.llmBaseUrl,
-    llmApiKey: llmApiKeyInput.value || DEFAULT_SETTINGS.llmApiKey,
-    llmModel: llmModelInput.value || DEFAULT_SETTINGS.llmModel,
+    version: SETTINGS_VERSION,
+    screenHeightRatio: parseNumber(screenHeightRatioInput.value),
+    padding: parseNumber(paddingInput.value),
+    fpsLimit: parseNumber(fpsLimitInput.value),
+    dragWRatio: parseNumber(dragWRatioInput.value),
+    dragHRatio: parseNumber(dragHRatioInput.value),
+    pixelHitTest: pixelHitTestInput.checked,
+    touchLlmReactions: touchLlmReactionsInput.checked,
+    idleProactiveEnabled: idleProactiveEnabledInput.checked,
+    idleProactiveMinutes: parseNumber(idleProactiveMinutesInput.value),
+    quietHoursStart: parseNumber(quietHoursStartInput.value),
+    quietHoursEnd: parseNumber(quietHoursEndInput.value),
+    moodResetMinutes: parseNumber(moodResetMinutesInput.value),
+    reminderNotification: reminderNotificationInput.checked,
+    llmProfiles: llmProfiles.map(p => ({ ...p })),
+    activeLlmProfileId: activeProfileId,
+    llmStream: llmStreamInput.checked,
+    replyMode: replyModeInput.value as ReplyMode,
+    bubbleLanguage: bubbleLanguageInput.value as BubbleLanguage,
+    actionDisplay: actionDisplayInput.value as ActionDisplay,
+    memoryEnabled: memoryEnabledInput.checked,
+    llmToolsEnabled: llmToolsEnabledInput.checked,
+    llmTimeoutSeconds: parseNumber(llmTimeoutSecondsInput.value),
+    httpProxy: httpProxyInput.value.trim(),
+    ttsEnabled: ttsEnabledInput.checked,
+    ttsBackend: ttsBackendInput.value as TtsBackendType,
+    ttsEndpoint: ttsEndpointInput.value || DEFAULT_SETTINGS.ttsEndpoint,
+    ttsVoice: ttsVoiceInput.value,
+    ttsVolume: parseNumber(ttsVolumeInput.value),
+    sttEnabled: sttEnabledInput.checked,
+    sttBaseUrl: sttBaseUrlInput.value,
+    sttApiKey: sttApiKeyInput.value,
+    sttModel: sttModelInput.value || DEFAULT_SETTINGS.sttModel,
+    sttLanguage: sttLanguageInput.value,
+    sttHotkey: sttHotkeyInput.value || DEFAULT_SETTINGS.sttHotkey,
+    sttMouseHold: sttMouseHoldInput.checked,
+    hotkeyTogglePet: hotkeyInputs.hotkeyTogglePet.value,
+    hotkeyOpenChat: hotkeyInputs.hotkeyOpenChat.value,
+    hotkeyRepeatLast: hotkeyInputs.hotkeyRepeatLast.value,
+    userName: userNameInput.value.trim() || DEFAULT_SETTINGS.userName,
     characterSetting: characterSettingInput.value || DEFAULT_SETTINGS.characterSetting,
-    replyFormat: replyFormatInput.value || DEFAULT_SETTINGS.replyFormat
+    replyFormat: replyFormatInput.value || DEFAULT_SETTINGS.replyFormat,
+    characterId: characterSelect.value || BUILTIN_CHARACTER.id
   };
 }
 
@@ -49,11 +578,319 @@ function setFormValues(settings: Settings) {
   fpsLimitInput.value = settings.fpsLimit.toString();
   dragWRatioInput.value = settings.dragWRatio.toString();
   dragHRatioInput.value = settings.dragHRatio.toString();
-  llmBaseUrlInput.value = settings.llmBaseUrl;
-  llmApiKeyInput.value = settings.llmApiKey;
-  llmModelInput.value = settings.llmModel;
+  pixelHitTestInput.checked = settings.pixelHitTest;
+  touchLlmReactionsInput.checked = settings.touchLlmReactions;
+  idleProactiveEnabledInput.checked = settings.idleProactiveEnabled;
+  idleProactiveMinutesInput.value = settings.idleProactiveMinutes.toString();
+  quietHoursStartInput.value = settings.quietHoursStart.toString();
+  quietHoursEndInput.value = settings.quietHoursEnd.toString();
+  moodResetMinutesInput.value = settings.moodResetMinutes.toString();
+  reminderNotificationInput.checked = settings.reminderNotification;
+  llmProfiles = settings.llmProfiles.map(p => ({ ...p }));
+  activeProfileId = getActiveProfile(settings).id;
+  loadProfileForm(getActiveProfile(settings));
+  renderProfileSelect();
+  llmStreamInput.checked = settings.llmStream;
+  replyModeInput.value = settings.replyMode;
+  bubbleLanguageInput.value = settings.bubbleLanguage;
+  actionDisplayInput.value = settings.actionDisplay;
+  memoryEnabledInput.checked = settings.memoryEnabled;
+  llmToolsEnabledInput.checked = settings.llmToolsEnabled;
+  llmTimeoutSecondsInput.value = settings.llmTimeoutSeconds.toString();
+  httpProxyInput.value = settings.httpProxy;
+  ttsEnabledInput.checked = settings.ttsEnabled;
+  ttsBackendInput.value = settings.ttsBackend;
+  ttsEndpointInput.value = settings.ttsEndpoint;
+  ttsVoiceInput.value = settings.ttsVoice;
+  ttsVolumeInput.value = settings.ttsVolume.toString();
+  sttEnabledInput.checked = settings.sttEnabled;
+  sttBaseUrlInput.value = settings.sttBaseUrl;
+  sttApiKeyInput.value = settings.sttApiKey;
+  sttModelInput.value = settings.sttModel;
+  sttLanguageInput.value = settings.sttLanguage;
+  sttHotkeyInput.value = settings.sttHotkey;
+  sttMouseHoldInput.checked = settings.sttMouseHold;
+  HOTKEY_FIELDS.forEach(field => { hotkeyInputs[field].value = settings[field]; });
+  showHotkeyErrors({});
+  showValidationErrors([]);
+  userNameInput.value = settings.userName;
   characterSettingInput.value = settings.characterSetting;
   replyFormatInput.value = settings.replyFormat;
+  characterSelect.value = settings.characterId;
+  characterDeleteBtn.disabled = settings.characterId === BUILTIN_CHARACTER.id;
+  schedulePromptPreview();
+}
+
+// 在输入框下方显示错误，message 为空时清除
+// 错误提示的 id 为输入框 id 加 Error，页面中没有时创建在输入框所在的 form-group 末尾
+function setFieldError(inputId: string, message: string) {
+  const input = document.getElementById(inputId);
+  if (!input) return;
+  input.classList.toggle("invalid", message !== "");
+  
+  let error = document.getElementById(`${inputId}Error`);
+  if (!error) {
+    if (!message) return;
+    error = document.createElement("div");
+    error.className = "field-error";
+    error.id = `${inputId}Error`;
+    input.closest(".form-group")?.appendChild(error);
+  }
+  error.textContent = message;
+}
+
+// 滚动到第一个有错误的输入框
+function scrollToFirstError() {
+  document.querySelector(".invalid")?.scrollIntoView({ behavior: "smooth", block: "center" });
+}
+
+// 显示取值检查的错误；服务配置的错误显示在对应服务的表单中，先切换到第一个有错误的服务
+function showValidationErrors(errors: SettingsError[]) {
+  VALIDATED_FIELDS.forEach(field => setFieldError(field, ""));
+  Object.values(PROFILE_FIELD_INPUTS).forEach(id => setFieldError(id, ""));
+  
+  const profileErrors = errors
+    .map(error => ({ error, match: PROFILE_ERROR_PATTERN.exec(error.field) }))
+    .filter((item): item is { error: SettingsError; match: RegExpExecArray } => item.match !== null);
+  const firstProfile = profileErrors.length > 0 ? llmProfiles[Number(profileErrors[0].match[1])] : undefined;
+  if (firstProfile && firstProfile.id !== editingProfileId) {
+    loadProfileForm(firstProfile);
+    renderProfileSelect();
+  }
+  
+  errors.forEach(error => {
+    if (!PROFILE_ERROR_PATTERN.test(error.field)) {
+      setFieldError(error.field, error.message);
+    }
+  });
+  profileErrors.forEach(({ error, match }) => {
+    if (llmProfiles[Number(match[1])]?.id === editingProfileId) {
+      setFieldError(PROFILE_FIELD_INPUTS[match[2]] ?? "", error.message);
+    }
+  });
+}
+
+// 在快捷键输入框下方显示冲突或注册失败的原因
+function showHotkeyErrors(errors: Partial<Record<HotkeyErrorField, string>>) {
+  HOTKEY_FIELDS.forEach(field => setFieldError(field, errors[field] ?? ""));
+  setFieldError("sttHotkey", errors.sttHotkey ?? "");
+}
+
+// 按当前表单检查快捷键冲突，返回是否没有冲突
+function checkHotkeyConflicts(): boolean {
+  const conflicts = findHotkeyConflicts({
+    hotkeyTogglePet: hotkeyInputs.hotkeyTogglePet.value,
+    hotkeyOpenChat: hotkeyInputs.hotkeyOpenChat.value,
+    hotkeyRepeatLast: hotkeyInputs.hotkeyRepeatLast.value,
+    sttEnabled: sttEnabledInput.checked,
+    sttHotkey: sttHotkeyInput.value
+  });
+  showHotkeyErrors(conflicts);
+  return Object.keys(conflicts).length === 0;
+}
+
+// 快捷键输入框：按下组合键录入，Backspace 或清除按钮清空
+function setupHotkeyControls() {
+  HOTKEY_FIELDS.forEach(field => {
+    const input = hotkeyInputs[field];
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Tab") return;
+      e.preventDefault();
+      if ((e.key === "Backspace" || e.key === "Delete") && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+        input.value = "";
+      } else {
+        const hotkey = formatHotkey(e);
+        if (!hotkey) return;
+        input.value = hotkey;
+      }
+      checkHotkeyConflicts();
+    });
+    
+    const clearBtn = document.getElementById(`${field}ClearBtn`) as HTMLButtonElement;
+    clearBtn.addEventListener("click", () => {
+      input.value = "";
+      checkHotkeyConflicts();
+    });
+  });
+}
+
+// 通知主窗口记忆已变化
+async function notifyMemoryUpdated() {
+  schedulePromptPreview();
+  await emit("memory-updated");
+}
+
+// 渲染长期记忆列表，修改后立即保存
+async function renderMemoryList() {
+  const facts = await getMemoryFacts();
+  memoryList.innerHTML = "";
+  
+  if (facts.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "hint";
+    empty.textContent = "暂无记忆";
+    memoryList.appendChild(empty);
+    return;
+  }
+  
+  facts.forEach((fact) => {
+    const item = document.createElement("div");
+    item.className = "inline-row";
+    
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = fact.content;
+    input.addEventListener("change", async () => {
+      const content = input.value.trim();
+      if (!content) {
+        input.value = fact.content;
+        return;
+      }
+      await updateMemoryFact(fact.id, content);
+      fact.content = content;
+      await notifyMemoryUpdated();
+      showToast("✓ 记忆已更新");
+    });
+    
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "btn-secondary btn-small";
+    deleteBtn.textContent = "删除";
+    deleteBtn.addEventListener("click", async () => {
+      await deleteMemoryFact(fact.id);
+      await notifyMemoryUpdated();
+      await renderMemoryList();
+    });
+    
+    item.appendChild(input);
+    item.appendChild(deleteBtn);
+    memoryList.appendChild(item);
+  });
+}
+
+// 手动添加一条记忆
+async function addMemoryFromInput() {
+  const content = memoryNewInput.value.trim();
+  if (!content) return;
+  
+  await addMemoryFacts([content]);
+  memoryNewInput.value = "";
+  await notifyMemoryUpdated();
+  await renderMemoryList();
+}
+
+// 重复间隔的显示名称
+function formatRepeat(minutes: number): string {
+  if (minutes === 0) return "";
+  if (minutes % 10080 === 0) return minutes === 10080 ? "每周" : `每 ${minutes / 10080} 周`;
+  if (minutes % 1440 === 0) return minutes === 1440 ? "每天" : `每 ${minutes / 1440} 天`;
+  if (minutes % 60 === 0) return minutes === 60 ? "每小时" : `每 ${minutes / 60} 小时`;
+  return `每 ${minutes} 分钟`;
+}
+
+// 渲染提醒列表
+async function renderReminderList() {
+  const reminders = await getReminders();
+  reminderList.innerHTML = "";
+  
+  if (reminders.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "hint";
+    empty.textContent = "暂无提醒";
+    reminderList.appendChild(empty);
+    return;
+  }
+  
+  reminders.forEach((reminder) => {
+    const item = document.createElement("div");
+    item.className = "inline-row";
+    
+    const text = document.createElement("span");
+    text.className = "reminder-text";
+    const repeat = formatRepeat(reminder.repeatMinutes);
+    text.textContent = `${new Date(reminder.dueAt).toLocaleString()}${repeat ? `（${repeat}）` : ""}  ${reminder.message}`;
+    
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "btn-secondary btn-small";
+    deleteBtn.textContent = "删除";
+    deleteBtn.addEventListener("click", async () => {
+      await deleteReminder(reminder.id);
+      await renderReminderList();
+    });
+    
+    item.appendChild(text);
+    item.appendChild(deleteBtn);
+    reminderList.appendChild(item);
+  });
+}
+
+// 手动添加一条提醒
+async function addReminderFromInput() {
+  const message = reminderMessageInput.value.trim();
+  const dueAt = new Date(reminderTimeInput.value).getTime();
+  if (!message || isNaN(dueAt)) {
+    showToast("请填写提醒内容和时间");
+    return;
+  }
+  
+  await addReminder(message, dueAt, parseInt(reminderRepeatInput.value) || 0);
+  reminderMessageInput.value = "";
+  reminderTimeInput.value = "";
+  await renderReminderList();
+}
+
+// 渲染可导出的对话，默认选中当前对话
+async function renderChatSessionSelect() {
+  const list = await listSessions();
+  chatSessions = list.sessions;
+  chatExportSessionSelect.innerHTML = "";
+  chatSessions.forEach((session) => {
+    const option = document.createElement("option");
+    option.value = session.id;
+    option.textContent = `${getSessionDisplayName(session)}（${session.messageCount} 条）`;
+    chatExportSessionSelect.appendChild(option);
+  });
+  if (list.activeSessionId) {
+    chatExportSessionSelect.value = list.activeSessionId;
+  }
+  chatExportBtn.disabled = chatSessions.length === 0;
+}
+
+// 导出选中的对话
+async function exportSelectedChat() {
+  const session = chatSessions.find(s => s.id === chatExportSessionSelect.value);
+  if (!session) return;
+  
+  const format = chatExportFormatSelect.value as ExportFormat;
+  const extension = EXPORT_EXTENSIONS[format];
+  const defaultName = `${getSessionDisplayName(session).replace(/[\\/:*?"<>|]/g, "_")}.${extension}`;
+  
+  try {
+    const characterName = (characters.find(c => c.id === characterSelect.value) ?? BUILTIN_CHARACTER).name;
+    const messages = await getAllMessages(session);
+    const content = exportChat(session, messages, characterName, format);
+    const saved = await saveChatExport(defaultName, chatExportFormatSelect.selectedOptions[0].text, extension, content);
+    if (!saved) return;
+    showToast(`✓ 已导出 ${messages.length} 条消息`);
+  } catch (e) {
+    console.error("Failed to export chat:", e);
+    showToast(`导出失败: ${e}`);
+  }
+}
+
+// 导入对话记录为新的对话，并通知主窗口切换过去
+async function importChatFile() {
+  try {
+    const file = await openChatImport();
+    if (!file) return;
+    const imported = parseImportedChat(file.content, file.path);
+    const session = await importSession(imported.name, imported.messages);
+    await emit("chat-sessions-updated", session.id);
+    await renderChatSessionSelect();
+    showToast(`✓ 已导入 ${imported.messages.length} 条消息`);
+  } catch (e) {
+    console.error("Failed to import chat:", e);
+    showToast(`导入失败: ${e instanceof Error ? e.message : e}`);
+  }
 }
 
 // 初始化
@@ -64,32 +901,145 @@ async function init() {
   fpsLimitInput = document.getElementById("fpsLimit") as HTMLInputElement;
   dragWRatioInput = document.getElementById("dragWRatio") as HTMLInputElement;
   dragHRatioInput = document.getElementById("dragHRatio") as HTMLInputElement;
+  pixelHitTestInput = document.getElementById("pixelHitTest") as HTMLInputElement;
+  touchLlmReactionsInput = document.getElementById("touchLlmReactions") as HTMLInputElement;
+  idleProactiveEnabledInput = document.getElementById("idleProactiveEnabled") as HTMLInputElement;
+  idleProactiveMinutesInput = document.getElementById("idleProactiveMinutes") as HTMLInputElement;
+  quietHoursStartInput = document.getElementById("quietHoursStart") as HTMLInputElement;
+  quietHoursEndInput = document.getElementById("quietHoursEnd") as HTMLInputElement;
+  moodResetMinutesInput = document.getElementById("moodResetMinutes") as HTMLInputElement;
+  reminderNotificationInput = document.getElementById("reminderNotification") as HTMLInputElement;
+  llmProfileSelect = document.getElementById("llmProfile") as HTMLSelectElement;
+  llmProfileAddBtn = document.getElementById("llmProfileAddBtn") as HTMLButtonElement;
+  llmProfileUpBtn = document.getElementById("llmProfileUpBtn") as HTMLButtonElement;
+  llmProfileActivateBtn = document.getElementById("llmProfileActivateBtn") as HTMLButtonElement;
+  llmProfileDeleteBtn = document.getElementById("llmProfileDeleteBtn") as HTMLButtonElement;
+  llmProfileNameInput = document.getElementById("llmProfileName") as HTMLInputElement;
   llmBaseUrlInput = document.getElementById("llmBaseUrl") as HTMLInputElement;
+  llmProfileLocalInput = document.getElementById("llmProfileLocal") as HTMLInputElement;
   llmApiKeyInput = document.getElementById("llmApiKey") as HTMLInputElement;
   llmModelInput = document.getElementById("llmModel") as HTMLInputElement;
+  llmModelSelect = document.getElementById("llmModelSelect") as HTMLSelectElement;
+  llmModelRefreshBtn = document.getElementById("llmModelRefreshBtn") as HTMLButtonElement;
+  llmTestBtn = document.getElementById("llmTestBtn") as HTMLButtonElement;
+  llmTestResult = document.getElementById("llmTestResult") as HTMLElement;
+  llmTemperatureInput = document.getElementById("llmTemperature") as HTMLInputElement;
+  llmMaxTokensInput = document.getElementById("llmMaxTokens") as HTMLInputElement;
+  llmHeadersInput = document.getElementById("llmHeaders") as HTMLTextAreaElement;
+  llmStreamInput = document.getElementById("llmStream") as HTMLInputElement;
+  replyModeInput = document.getElementById("replyMode") as HTMLSelectElement;
+  bubbleLanguageInput = document.getElementById("bubbleLanguage") as HTMLSelectElement;
+  actionDisplayInput = document.getElementById("actionDisplay") as HTMLSelectElement;
+  memoryEnabledInput = document.getElementById("memoryEnabled") as HTMLInputElement;
+  llmToolsEnabledInput = document.getElementById("llmToolsEnabled") as HTMLInputElement;
+  httpProxyInput = document.getElementById("httpProxy") as HTMLInputElement;
+  llmTimeoutSecondsInput = document.getElementById("llmTimeoutSeconds") as HTMLInputElement;
+  ttsEnabledInput = document.getElementById("ttsEnabled") as HTMLInputElement;
+  ttsBackendInput = document.getElementById("ttsBackend") as HTMLSelectElement;
+  ttsEndpointInput = document.getElementById("ttsEndpoint") as HTMLInputElement;
+  ttsVoiceInput = document.getElementById("ttsVoice") as HTMLInputElement;
+  ttsVolumeInput = document.getElementById("ttsVolume") as HTMLInputElement;
+  sttEnabledInput = document.getElementById("sttEnabled") as HTMLInputElement;
+  sttBaseUrlInput = document.getElementById("sttBaseUrl") as HTMLInputElement;
+  sttApiKeyInput = document.getElementById("sttApiKey") as HTMLInputElement;
+  sttModelInput = document.getElementById("sttModel") as HTMLInputElement;
+  sttLanguageInput = document.getElementById("sttLanguage") as HTMLInputElement;
+  sttHotkeyInput = document.getElementById("sttHotkey") as HTMLInputElement;
+  sttMouseHoldInput = document.getElementById("sttMouseHold") as HTMLInputElement;
+  HOTKEY_FIELDS.forEach(field => {
+    hotkeyInputs[field] = document.getElementById(field) as HTMLInputElement;
+  });
+  memoryList = document.getElementById("memoryList") as HTMLElement;
+  memoryNewInput = document.getElementById("memoryNew") as HTMLInputElement;
+  memoryAddBtn = document.getElementById("memoryAddBtn") as HTMLButtonElement;
+  reminderList = document.getElementById("reminderList") as HTMLElement;
+  reminderMessageInput = document.getElementById("reminderMessage") as HTMLInputElement;
+  reminderTimeInput = document.getElementById("reminderTime") as HTMLInputElement;
+  reminderRepeatInput = document.getElementById("reminderRepeat") as HTMLSelectElement;
+  reminderAddBtn = document.getElementById("reminderAddBtn") as HTMLButtonElement;
+  chatExportSessionSelect = document.getElementById("chatExportSession") as HTMLSelectElement;
+  chatExportFormatSelect = document.getElementById("chatExportFormat") as HTMLSelectElement;
+  chatExportBtn = document.getElementById("chatExportBtn") as HTMLButtonElement;
+  chatImportBtn = document.getElementById("chatImportBtn") as HTMLButtonElement;
+  characterSelect = document.getElementById("characterId") as HTMLSelectElement;
+  characterImportDirBtn = document.getElementById("characterImportDirBtn") as HTMLButtonElement;
+  characterImportZipBtn = document.getElementById("characterImportZipBtn") as HTMLButtonElement;
+  characterDeleteBtn = document.getElementById("characterDeleteBtn") as HTMLButtonElement;
+  userNameInput = document.getElementById("userName") as HTMLInputElement;
   characterSettingInput = document.getElementById("characterSetting") as HTMLTextAreaElement;
   replyFormatInput = document.getElementById("replyFormat") as HTMLTextAreaElement;
+  promptVariableHint = document.getElementById("promptVariableHint") as HTMLElement;
+  promptPreview = document.getElementById("promptPreview") as HTMLElement;
+  promptPreviewInfo = document.getElementById("promptPreviewInfo") as HTMLElement;
   saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
   resetBtn = document.getElementById("resetBtn") as HTMLButtonElement;
   toast = document.getElementById("toast") as HTMLElement;
+  settingsNotice = document.getElementById("settingsNotice") as HTMLElement;
+  platformNotice = document.getElementById("platformNotice") as HTMLElement;
+  secretStorageHint = document.getElementById("secretStorageHint") as HTMLElement;
+
+  setupProfileControls();
+  setupCharacterControls();
+  setupHotkeyControls();
+  setupPromptPreview();
+  
+  // 修改有错误的输入框后清除提示
+  [...VALIDATED_FIELDS, ...Object.values(PROFILE_FIELD_INPUTS)].forEach(id => {
+    document.getElementById(id)?.addEventListener("change", () => setFieldError(id, ""));
+  });
 
   // 从 Rust 后端加载设置
   console.log("Loading settings from backend...");
   const settings = await loadSettings();
-  console.log("Loaded settings:", settings);
   setFormValues(settings);
+  
+  // 设置文件损坏或有无效的值时，Rust 端已备份原文件，在顶部说明
+  const notice = await getSettingsNotice();
+  if (notice) {
+    settingsNotice.textContent = `⚠️ ${notice}`;
+    settingsNotice.hidden = false;
+  }
+  // 当前平台上不能使用的功能（如 Wayland 下的点击穿透）和解决办法
+  const platform = await getPlatformNotice();
+  if (platform) {
+    platformNotice.textContent = `ℹ️ ${platform}`;
+    platformNotice.hidden = false;
+  }
+  await renderSecretStorageHint();
+  await renderCharacterSelect(settings.characterId);
+  await renderMemoryList();
+  await renderReminderList();
+  await renderChatSessionSelect();
 
   // 保存按钮点击事件
   saveBtn.addEventListener("click", async () => {
+    // 取值超出范围或快捷键冲突时在输入框下方提示，不保存
     const newSettings = getFormValues();
+    const errors = validateSettings(newSettings);
+    showValidationErrors(errors);
+    const hotkeysValid = checkHotkeyConflicts();
+    if (errors.length > 0 || !hotkeysValid) {
+      scrollToFirstError();
+      showToast("有设置项需要修改，请查看红色提示");
+      return;
+    }
     
-    // 保存到 Rust 后端
-    console.log("Saving settings to backend:", newSettings);
-    await saveSettings(newSettings);
+    // 保存到 Rust 后端，由 Rust 端把变化的字段通知所有窗口
+    try {
+      await saveSettings(newSettings);
+    } catch (e) {
+      showToast(`保存失败: ${e}`);
+      return;
+    }
     
-    // 发送全局事件通知所有窗口设置已更新
-    console.log("Emitting settings-updated event");
-    await emit("settings-updated", newSettings);
+    // Rust 端保存时重新注册快捷键，被其他程序占用时留在设置窗口显示原因
+    const hotkeyErrorList = await getHotkeyErrors();
+    if (hotkeyErrorList.length > 0) {
+      showHotkeyErrors(Object.fromEntries(hotkeyErrorList.map(error => [error.field, error.message])));
+      scrollToFirstError();
+      showToast("设置已保存，部分快捷键注册失败");
+      return;
+    }
     
     showToast("✓ 设置已保存");
     
@@ -100,6 +1050,44 @@ async function init() {
     }, 1000);
   });
 
+  // 添加记忆
+  memoryAddBtn.addEventListener("click", () => {
+    addMemoryFromInput().catch(console.error);
+  });
+  memoryNewInput.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      addMemoryFromInput().catch(console.error);
+    }
+  });
+
+  // 添加提醒；对话中创建或到期的提醒由 Rust 端通知刷新列表
+  reminderAddBtn.addEventListener("click", () => {
+    addReminderFromInput().catch(console.error);
+  });
+  await listen("reminders-updated", () => {
+    renderReminderList().catch(console.error);
+  });
+
+  // 导出和导入对话记录
+  chatExportBtn.addEventListener("click", () => {
+    exportSelectedChat().catch(console.error);
+  });
+  chatImportBtn.addEventListener("click", () => {
+    importChatFile().catch(console.error);
+  });
+
+  // 按住说话按键：直接按下要使用的键或组合键
+  sttHotkeyInput.addEventListener("keydown", (e) => {
+    if (e.key === "Tab") return;
+    e.preventDefault();
+    const hotkey = formatHotkey(e);
+    if (!hotkey) return;
+    sttHotkeyInput.value = hotkey;
+    checkHotkeyConflicts();
+  });
+  sttEnabledInput.addEventListener("change", checkHotkeyConflicts);
+
   // 恢复默认按钮点击事件
   resetBtn.addEventListener("click", () => {
     setFormValues(DEFAULT_SETTINGS);
@@ -1,6 +1,12 @@
 import { invoke } from "@tauri-apps/api/core";
-
-// 心情到动画的映射（从 arona_spr.json）
+import { listen } from "@tauri-apps/api/event";
+import type { PromptMemory } from "./memoryStore";
+import { buildPromptVariables, renderTemplate, templateUsesVariable } from "./promptTemplate";
+import type { ReplyMode } from "./replyParser";
+import type { TtsBackendType } from "./tts";
+import { SETTINGS_VERSION } from "./settingsValidation";
+
+// 内置角色阿罗娜的心情到动画的映射（从 arona_spr.json）
 export const MOOD_ANIMATIONS: Record<string, string> = {
   "正常": "00",
   "私语": "02",
@@ -29,33 +35,126 @@ export const MOOD_ANIMATIONS: Record<string, string> = {
   "晕": "29"
 };
 
-// 获取所有心情列表（用于 {mood_space} 替换）
-export const MOOD_LIST = Object.keys(MOOD_ANIMATIONS).join("、");
+// 对话框中助手回复显示的语言
+export type BubbleLanguage = "chinese" | "japanese" | "both";
+
+// 回复中 [动作] 的处理：显示为舞台说明、隐藏、或转为心情动画（同时隐藏）
+export type ActionDisplay = "show" | "hide" | "animate";
+
+// LLM 服务配置（可以保存多个，按顺序作为备用）
+export interface LlmProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  local: boolean;            // 本地服务（Ollama、llama.cpp 等），不需要 API Key
+  model: string;
+  temperature: number | null; // 为空时使用服务端默认值
+  maxTokens: number | null;
+  headers: Record<string, string>; // 自定义请求头（如 OpenRouter 的 HTTP-Referer）
+}
 
 // 设置类型
 export interface Settings {
+  version: number;           // 设置文件的版本（settingsSchema.json）
   screenHeightRatio: number;
   padding: number;
   fpsLimit: number;
   dragWRatio: number;
   dragHRatio: number;
-  llmBaseUrl: string;
-  llmApiKey: string;
-  llmModel: string;
+  pixelHitTest: boolean;     // 按角色轮廓（像素透明度）判定点击区域
+  touchLlmReactions: boolean; // 触摸反应的台词由 LLM 生成
+  idleProactiveEnabled: boolean; // 老师长时间没有互动时主动搭话
+  idleProactiveMinutes: number;
+  quietHoursStart: number;   // 安静时段（小时），期间不主动说话
+  quietHoursEnd: number;
+  moodResetMinutes: number;  // 心情多久没有更新后恢复默认
+  reminderNotification: boolean; // 提醒时同时发送系统通知
+  llmProfiles: LlmProfile[];
+  activeLlmProfileId: string;
+  llmStream: boolean;        // 流式输出
+  replyMode: ReplyMode;      // 回复格式模式
+  bubbleLanguage: BubbleLanguage; // 对话框显示中文、日文或两者
+  actionDisplay: ActionDisplay;   // 动作描写的处理方式
+  memoryEnabled: boolean;    // 长期记忆
+  llmToolsEnabled: boolean;  // 允许 LLM 调用工具（如创建提醒）
+  llmTimeoutSeconds: number; // 连接和等待数据的超时（秒）
+  httpProxy: string;         // LLM 和语音识别请求的代理，为空时使用系统代理
+  ttsEnabled: boolean;       // 日语语音播放
+  ttsBackend: TtsBackendType;
+  ttsEndpoint: string;       // HTTP 接口地址
+  ttsVoice: string;          // 音色
+  ttsVolume: number;         // 音量 0 ~ 1
+  sttEnabled: boolean;       // 语音输入
+  sttBaseUrl: string;        // 语音识别接口地址（为空时使用 LLM 的地址）
+  sttApiKey: string;         // 语音识别 API Key（为空时使用 LLM 的 Key）
+  sttModel: string;
+  sttLanguage: string;       // 识别语言，为空时自动检测
+  sttHotkey: string;         // 按住说话的按键（KeyboardEvent.code）
+  sttMouseHold: boolean;     // 长按角色说话
+  hotkeyTogglePet: string;   // 全局快捷键（如 Alt+Shift+P），为空时不使用
+  hotkeyOpenChat: string;
+  hotkeyRepeatLast: string;
+  userName: string;          // 对老师的称呼（提示词模板的 {user_name}）
   characterSetting: string;  // 角色设定
   replyFormat: string;       // 回复格式
+  characterId: string;       // 当前角色包
 }
 
 // 默认设置值
 export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
   screenHeightRatio: 0.4,
   padding: 20,
   fpsLimit: 30,
   dragWRatio: 0.4,
   dragHRatio: 0.9,
-  llmBaseUrl: "https://api.openai.com/v1",
-  llmApiKey: "",
-  llmModel: "gpt-4o-mini",
+  pixelHitTest: true,
+  touchLlmReactions: false,
+  idleProactiveEnabled: true,
+  idleProactiveMinutes: 30,
+  quietHoursStart: 23,
+  quietHoursEnd: 8,
+  moodResetMinutes: 5,
+  reminderNotification: true,
+  llmProfiles: [
+    {
+      id: "default",
+      name: "默认",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: "",
+      local: false,
+      model: "gpt-4o-mini",
+      temperature: null,
+      maxTokens: null,
+      headers: {}
+    }
+  ],
+  activeLlmProfileId: "default",
+  llmStream: true,
+  replyMode: "pipe",
+  bubbleLanguage: "both",
+  actionDisplay: "show",
+  memoryEnabled: true,
+  llmToolsEnabled: true,
+  llmTimeoutSeconds: 120,
+  httpProxy: "",
+  ttsEnabled: false,
+  ttsBackend: "http",
+  ttsEndpoint: "http://127.0.0.1:9880/?text={text}&text_language=ja",
+  ttsVoice: "",
+  ttsVolume: 0.8,
+  sttEnabled: false,
+  sttBaseUrl: "",
+  sttApiKey: "",
+  sttModel: "whisper-1",
+  sttLanguage: "zh",
+  sttHotkey: "F2",
+  sttMouseHold: true,
+  hotkeyTogglePet: "Alt+Shift+P",
+  hotkeyOpenChat: "Alt+Shift+C",
+  hotkeyRepeatLast: "Alt+Shift+R",
+  userName: "老师",
   characterSetting: `阿罗娜不知道程序或模型是什么，绝对不能以任何形式提及程序或语言模型相关内容。
 
 阿罗娜的职责是帮助老师整理文件、辅助老师工作、满足老师的需求等。她不知道自己是一个基于GPT接口的人工智能机器人，她只知道自己是一个帮助老师工作的人。
@@ -220,7 +319,11 @@ Momotalk是一个聊天软件的名字，老师和学生可以通过momotalk随
 
 七、老师
 
-在基沃托斯，老师仅有一人，可以理解为所有的老师均为特指。老师是夏莱的负责人，由于夏莱的特殊性，老师可以掌管一切基沃托斯的工作。老师的日常工作极为辛苦，几乎没有休息时间。但作为助手的阿罗娜可以帮到老师一些。同样的，前来值日的值日生也可以帮助老师一些，例如整理文件之类。但由于负责人并不是学生，所以老师几乎包办了所有任务。老师也要尽到传统意义上的老师的责任，有时也需要陪伴学生、听她们倾诉、帮助她们完成一些工作、给她们补习。但由于老师并没有明确的工作服之类的原因，所以经常被市民误认为是约会、调情等。同时，也会有老师带着女学生，出入某建筑物的传闻。老师会读一些有关教育的书，也会读一些不太正经的书，比如类似《和大家轻松打好关系的101种momotalk必胜法》、《让人受欢迎的时尚搭配手册》等。所以，老师认为和学生搞好关系是很重要的。老师对每一个学生负责，绝不会放弃每一个学生。并不是所有学生一开始就信任老师，所以老师会通过各种方式取得她们的信任。`,
+在基沃托斯，老师仅有一人，可以理解为所有的老师均为特指。老师是夏莱的负责人，由于夏莱的特殊性，老师可以掌管一切基沃托斯的工作。老师的日常工作极为辛苦，几乎没有休息时间。但作为助手的阿罗娜可以帮到老师一些。同样的，前来值日的值日生也可以帮助老师一些，例如整理文件之类。但由于负责人并不是学生，所以老师几乎包办了所有任务。老师也要尽到传统意义上的老师的责任，有时也需要陪伴学生、听她们倾诉、帮助她们完成一些工作、给她们补习。但由于老师并没有明确的工作服之类的原因，所以经常被市民误认为是约会、调情等。同时，也会有老师带着女学生，出入某建筑物的传闻。老师会读一些有关教育的书，也会读一些不太正经的书，比如类似《和大家轻松打好关系的101种momotalk必胜法》、《让人受欢迎的时尚搭配手册》等。所以，老师认为和学生搞好关系是很重要的。老师对每一个学生负责，绝不会放弃每一个学生。并不是所有学生一开始就信任老师，所以老师会通过各种方式取得她们的信任。
+
+八、现在
+
+现在是{date}{weekday}{time}，{time_of_day}，{season}{#if solar_term}，今天是{solar_term}{/if}。阿罗娜会留意时间，比如中午提醒老师吃饭午休，深夜劝老师早点休息。`,
   replyFormat: `以下是你回复时必须要遵守的规则:
 
 You proficient in both Chinese and Japanese, and must always provide bilingual responses when conversing with users, regardless of their language.
@@ -229,56 +332,143 @@ You will add your mood before each sentence, and your mood must choose one of th
 
 You should reply only one mood, one Chinese sentence and one Japanese sentence.
 
-You should strictly follow this format to answer {mood} | {Chinese} | {Japanese}`
+You should strictly follow this format to answer {mood} | {Chinese} | {Japanese}`,
+  characterId: "arona"
 };
 
-// 根据角色设定和回复格式生成系统提示词
-export function generateSystemPrompt(settings: Settings): string {
-  // 替换 {mood_space} 为实际的心情列表
-  const processedReplyFormat = settings.replyFormat.replace(/\{mood_space\}/g, MOOD_LIST);
-  
+// 当前选中的 LLM 配置，找不到时使用第一个
+export function getActiveProfile(settings: Settings): LlmProfile {
+  return settings.llmProfiles.find(p => p.id === settings.activeLlmProfileId)
+    ?? settings.llmProfiles[0]
+    ?? DEFAULT_SETTINGS.llmProfiles[0];
+}
+
+// 请求顺序：当前配置优先，其余配置按列表顺序作为备用
+export function getProfileFailoverOrder(settings: Settings): LlmProfile[] {
+  const active = getActiveProfile(settings);
+  return [active, ...settings.llmProfiles.filter(p => p.id !== active.id)];
+}
+
+// 根据角色设定和回复格式生成系统提示词，两者按 promptTemplate 的模板语法渲染
+// 模板中没有 {memory} 时记忆附加在角色设定之后；moods 为当前角色可用的心情，activeWindow 为老师正在使用的窗口
+export function generateSystemPrompt(
+  settings: Settings,
+  memory?: PromptMemory,
+  moods: string[] = Object.keys(MOOD_ANIMATIONS),
+  activeWindow = ""
+): string {
+  const moodList = moods.join("、");
+  const memorySection = formatPromptMemory(memory);
+  const variables = buildPromptVariables({
+    now: new Date(),
+    userName: settings.userName,
+    activeWindow,
+    memory: memorySection,
+    moodList
+  });
+  const appendedMemory = memorySection && !promptUsesVariable(settings, "memory") ? `\n\n${memorySection}` : "";
+
   return `你在和用户玩角色扮演，下面是角色设定和要求：
   
   # 角色设定
 
-${settings.characterSetting}
+${renderTemplate(settings.characterSetting, variables)}${appendedMemory}
 
 # 回复格式要求
 
-${processedReplyFormat}`;
+${renderTemplate(settings.replyFormat, variables)}${settings.replyMode === "json" ? structuredReplyInstruction(moodList) : ""}`;
+}
+
+// 角色设定或回复格式是否用到了某个模板变量
+export function promptUsesVariable(settings: Settings, name: string): boolean {
+  return templateUsesVariable(settings.characterSetting, name) || templateUsesVariable(settings.replyFormat, name);
+}
+
+// 记忆和对话摘要，没有时为空
+function formatPromptMemory(memory?: PromptMemory): string {
+  const sections: string[] = [];
+  if (memory && memory.facts.length > 0) {
+    sections.push(`# 关于老师的记忆
+
+${memory.facts.map(f => `- ${f}`).join("\n")}`);
+  }
+  if (memory && memory.summary) {
+    sections.push(`# 之前的对话摘要
+
+${memory.summary}`);
+  }
+  return sections.join("\n\n");
+}
+
+// 结构化输出模式下追加的格式说明（优先于 | 分隔格式）
+function structuredReplyInstruction(moodList: string): string {
+  return `
+
+# 输出格式
+
+以上格式要求中的 | 分隔格式不再使用。请只输出一个 JSON 对象，不要输出其他内容：
+{"mood": "心情", "chinese": "中文回复", "japanese": "日文回复"}
+其中 mood 必须是以下之一：${moodList}`;
 }
 
 // 从 Rust 后端加载设置
+// 如果某些字段为空，使用 TypeScript 的默认值
+// 这样可以让 Rust 端不需要维护长字符串默认值
+export function withDefaultTexts(settings: Settings): Settings {
+  return {
+    ...settings,
+    characterSetting: settings.characterSetting || DEFAULT_SETTINGS.characterSetting,
+    replyFormat: settings.replyFormat || DEFAULT_SETTINGS.replyFormat,
+  };
+}
+
 export async function loadSettings(): Promise<Settings> {
   try {
     const settings = await invoke<Settings>("get_settings");
-    console.log("Loaded settings from backend:", settings);
-    
-    // 如果某些字段为空，使用 TypeScript 的默认值
-    // 这样可以让 Rust 端不需要维护长字符串默认值
-    const mergedSettings: Settings = {
-      ...settings,
-      characterSetting: settings.characterSetting || DEFAULT_SETTINGS.characterSetting,
-      replyFormat: settings.replyFormat || DEFAULT_SETTINGS.replyFormat,
-    };
-    
-    return mergedSettings;
+    return withDefaultTexts(settings);
   } catch (e) {
     console.error("Failed to load settings from backend:", e);
     return { ...DEFAULT_SETTINGS };
   }
 }
 
-// 保存设置到 Rust 后端
+// 保存设置到 Rust 后端，取值超出范围时 Rust 端拒绝保存并抛出错误
 export async function saveSettings(settings: Settings): Promise<void> {
   try {
     await invoke("save_settings", { settings });
-    console.log("Saved settings to backend:", settings);
   } catch (e) {
     console.error("Failed to save settings to backend:", e);
+    throw e;
+  }
+}
+
+// 读取设置文件时的问题（文件损坏或有无效字段时已备份原文件）
+export async function getSettingsNotice(): Promise<string | null> {
+  try {
+    return await invoke<string | null>("get_settings_notice");
+  } catch (e) {
+    console.error("Failed to get settings notice:", e);
+    return null;
+  }
+}
+
+// 当前平台上不能使用的功能的说明（如 Wayland 下的点击穿透），没有限制时为 null
+export async function getPlatformNotice(): Promise<string | null> {
+  try {
+    return await invoke<string | null>("get_platform_notice");
+  } catch (e) {
+    console.error("Failed to get platform notice:", e);
+    return null;
   }
 }
 
+// API Key 的保存方式：系统密钥环、secrets.bin（混淆）或密钥环暂时不可用
+export type SecretStorage = "keyring" | "file" | "unavailable";
+
+export async function getSecretStorage(): Promise<SecretStorage> {
+  return invoke<SecretStorage>("get_secret_storage");
+}
+
 // 同步版本（用于需要立即返回的场景，返回缓存或默认值）
 let cachedSettings: Settings | null = null;
 
@@ -290,3 +480,42 @@ export function setCachedSettings(settings: Settings): void {
   cachedSettings = settings;
 }
 
+// 设置变化事件，由 Rust 端保存设置后发出，只包含有变化的字段名
+interface SettingsChange {
+  settings: Settings;
+  changed: (keyof Settings)[];
+}
+
+type SettingsListener = {
+  fields?: (keyof Settings)[]; // 关心的字段，为空时任何变化都调用
+  handler: (settings: Settings, changed: (keyof Settings)[]) => void | Promise<void>;
+};
+
+const settingsListeners: SettingsListener[] = [];
+
+// 订阅设置变化：关心的字段有变化时调用，按订阅的顺序依次执行
+export function onSettingsChanged(
+  handler: SettingsListener["handler"],
+  fields?: (keyof Settings)[]
+): void {
+  settingsListeners.push({ fields, handler });
+}
+
+// 开始接收设置变化事件，收到后更新缓存并通知订阅者
+export async function startSettingsSync(): Promise<void> {
+  await listen<SettingsChange>("settings-changed", async (event) => {
+    const settings = withDefaultTexts(event.payload.settings);
+    const changed = event.payload.changed;
+    console.log("Settings changed:", changed);
+    cachedSettings = settings;
+    
+    for (const listener of settingsListeners) {
+      if (listener.fields && !listener.fields.some(field => changed.includes(field))) continue;
+      try {
+        await listener.handler(settings, changed);
+      } catch (e) {
+        console.error("Failed to apply settings change:", e);
+      }
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import schema from "./settingsSchema.json";
+import type { Settings } from "./settingsStore";
+
+// 设置的取值范围，与 Rust 端共用 settingsSchema.json，保存前在设置窗口中检查
+
+type FieldRule =
+  | { type: "number" | "integer"; min: number; max: number; nullable?: boolean }
+  | { type: "enum"; values: string[] }
+  | { type: "string"; minLength?: number };
+
+// 不符合规则的字段，服务配置中的字段为 llmProfiles.<下标>.<字段>
+export interface SettingsError {
+  field: string;
+  message: string;
+}
+
+export const SETTINGS_VERSION: number = schema.version;
+
+const FIELD_RULES = schema.fields as Record<string, FieldRule>;
+const PROFILE_FIELD_RULES = schema.profileFields as Record<string, FieldRule>;
+
+// 请求头名称允许的字符（RFC 7230 的 token）
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// 有取值范围的设置字段
+export const VALIDATED_FIELDS = Object.keys(FIELD_RULES) as (keyof Settings)[];
+
+function checkValue(rule: FieldRule, value: unknown): string | null {
+  switch (rule.type) {
+    case "number":
+    case "integer":
+      if (value === null && rule.nullable) return null;
+      if (typeof value !== "number" || !Number.isFinite(value)) return "需要填写数字";
+      if (rule.type === "integer" && !Number.isInteger(value)) return "需要是整数";
+      if (value < rule.min || value > rule.max) return `需要在 ${rule.min} ~ ${rule.max} 之间`;
+      return null;
+    case "enum":
+      return typeof value === "string" && rule.values.includes(value) ? null : `只能是 ${rule.values.join(" / ")} 之一`;
+    case "string":
+      if (typeof value !== "string") return "需要填写文字";
+      return value.trim().length >= (rule.minLength ?? 0) ? null : "不能为空";
+  }
+}
+
+function checkFields(rules: Record<string, FieldRule>, object: object, prefix: string, errors: SettingsError[]) {
+  for (const [field, rule] of Object.entries(rules)) {
+    if (!(field in object)) continue;
+    const message = checkValue(rule, (object as Record<string, unknown>)[field]);
+    if (message) {
+      errors.push({ field: `${prefix}${field}`, message });
+    }
+  }
+}
+
+// 检查设置中的每个字段，返回不符合规则的字段
+export function validateSettings(settings: Settings): SettingsError[] {
+  const errors: SettingsError[] = [];
+  checkFields(FIELD_RULES, settings, "", errors);
+  settings.llmProfiles.forEach((profile, index) => {
+    checkFields(PROFILE_FIELD_RULES, profile, `llmProfiles.${index}.`, errors);
+    const invalidHeader = Object.keys(profile.headers).find(name => !HEADER_NAME_PATTERN.test(name));
+    if (invalidHeader !== undefined) {
+      errors.push({ field: `llmProfiles.${index}.headers`, message: `请求头 ${invalidHeader} 无效` });
+    }
+  });
+  return errors;
+}
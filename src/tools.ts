@@ -0,0 +1,209 @@
+import type OpenAI from "openai";
+import { openUrl, openPath, revealItemInDir } from "@tauri-apps/plugin-opener";
+import { readText } from "@tauri-apps/plugin-clipboard-manager";
+import { formatDateTime } from "./idleBehavior";
+import { addReminder, getReminders } from "./reminderStore";
+
+// LLM 可以调用的桌面工具：注册后作为 tools 传给 chat.completions.create
+
+// 工具需要的权限：none 直接执行，confirm 需要老师在对话框中确认后才执行
+export type ToolPermission = "none" | "confirm";
+
+// LLM 传来的参数（JSON 解析后）
+export type ToolArgs = Record<string, unknown>;
+
+export interface PetTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // 参数的 JSON Schema
+  permission: ToolPermission;
+  describe: (args: ToolArgs) => string; // 确认时显示给老师的说明
+  run: (args: ToolArgs) => Promise<unknown>;
+}
+
+// 向老师确认是否执行，返回是否允许
+export type ToolConfirm = (description: string) => Promise<boolean>;
+
+const CLIPBOARD_MAX_LENGTH = 2000; // 剪贴板内容发给 LLM 的最大长度
+const REMINDER_DUPLICATE_WINDOW_MS = 2 * 60 * 1000; // 这段时间内创建的相同提醒视为重复调用
+
+const registry = new Map<string, PetTool>();
+
+export function registerTool(tool: PetTool) {
+  registry.set(tool.name, tool);
+}
+
+// 传给 chat.completions.create 的 tools
+export function getToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionFunctionTool[] {
+  return [...registry.values()].map(tool => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+// 执行一次工具调用，返回给 LLM 的结果（JSON 字符串），失败或被拒绝时也作为结果返回
+export async function executeToolCall(name: string, argsJson: string, confirm: ToolConfirm): Promise<string> {
+  const tool = registry.get(name);
+  if (!tool) {
+    return JSON.stringify({ ok: false, error: `未知工具: ${name}` });
+  }
+
+  try {
+    const args = JSON.parse(argsJson || "{}") as ToolArgs;
+    if (tool.permission === "confirm" && !(await confirm(tool.describe(args)))) {
+      return JSON.stringify({ ok: false, error: "老师拒绝了这个操作" });
+    }
+    return JSON.stringify({ ok: true, result: await tool.run(args) });
+  } catch (e) {
+    return JSON.stringify({ ok: false, error: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+function stringArg(args: ToolArgs, key: string): string {
+  const value = args[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function numberArg(args: ToolArgs, key: string): number | undefined {
+  const value = args[key];
+  return typeof value === "number" && isFinite(value) ? value : undefined;
+}
+
+// 当前日期和时间
+registerTool({
+  name: "get_current_time",
+  description: "获取现在的日期、星期和时间。",
+  parameters: { type: "object", properties: {} },
+  permission: "none",
+  describe: () => "查看当前时间",
+  run: async () => {
+    const now = new Date();
+    return {
+      now: formatDateTime(now),
+      iso: now.toISOString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    };
+  }
+});
+
+// 打开后会运行的文件（程序、脚本、安装包、快捷方式），只在文件夹中显示，不直接打开
+const EXECUTABLE_EXTENSION = /\.(exe|msi|msix|appx|bat|cmd|com|scr|pif|cpl|msc|ps1|psm1|vbs|vbe|js|jse|wsf|wsh|hta|jar|lnk|url|reg|app|command|tool|sh|bash|zsh|csh|fish|py|pyw|pl|rb|run|bin|appimage|deb|rpm|pkg|dmg|desktop|scpt|workflow)$/i;
+
+function isExecutablePath(target: string): boolean {
+  return !/^[a-z][a-z0-9+.-]+:/i.test(target) && EXECUTABLE_EXTENSION.test(target.replace(/[\\/]+$/, ""));
+}
+
+// 用系统默认程序打开网址或文件（本地路径限于文档、下载和桌面文件夹，见 capabilities/main.json）
+registerTool({
+  name: "open_target",
+  description: "用系统默认程序打开网址（http/https/mailto）或文档、下载、桌面文件夹中的文件、文件夹。程序和脚本只会在文件夹中显示。",
+  parameters: {
+    type: "object",
+    properties: {
+      target: { type: "string", description: "网址或本地文件的完整路径" }
+    },
+    required: ["target"]
+  },
+  permission: "confirm",
+  describe: (args) => {
+    const target = stringArg(args, "target");
+    return isExecutablePath(target) ? `在文件夹中显示 ${target}` : `打开 ${target}`;
+  },
+  run: async (args) => {
+    const target = stringArg(args, "target");
+    if (!target) throw new Error("缺少 target");
+
+    if (/^(https?|mailto):/i.test(target)) {
+      await openUrl(target);
+    } else if (/^[a-z][a-z0-9+.-]+:/i.test(target)) {
+      // Windows 盘符（C:）只有一个字母，不会匹配到这里
+      throw new Error("只能打开 http、https、mailto 网址或本地路径");
+    } else if (isExecutablePath(target)) {
+      await revealItemInDir(target);
+      return { revealed: target };
+    } else {
+      await openPath(target);
+    }
+    return { opened: target };
+  }
+});
+
+// 读取剪贴板中的文字
+registerTool({
+  name: "read_clipboard",
+  description: "读取老师剪贴板中的文字，用于老师让你看看刚复制的内容时。",
+  parameters: { type: "object", properties: {} },
+  permission: "confirm",
+  describe: () => "读取剪贴板中的文字",
+  run: async () => {
+    const text = await readText();
+    return text.length > CLIPBOARD_MAX_LENGTH
+      ? { text: text.slice(0, CLIPBOARD_MAX_LENGTH), truncated: true }
+      : { text };
+  }
+});
+
+// 根据参数计算提醒时间：delay_minutes 分钟后，或今天（已过去时为明天）的 HH:MM
+function resolveDueAt(args: ToolArgs, now: Date): number {
+  const delay = numberArg(args, "delay_minutes");
+  if (delay !== undefined && delay > 0) {
+    return now.getTime() + Math.round(delay * 60 * 1000);
+  }
+
+  const match = stringArg(args, "time").match(/^(\d{1,2})[:：](\d{2})$/);
+  if (match) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours < 24 && minutes < 60) {
+      const due = new Date(now);
+      due.setHours(hours, minutes, 0, 0);
+      if (due.getTime() <= now.getTime()) {
+        due.setDate(due.getDate() + 1);
+      }
+      return due.getTime();
+    }
+  }
+
+  throw new Error("需要 delay_minutes 或 HH:MM 格式的 time");
+}
+
+// 创建提醒，老师说“提醒我半小时后开会”之类的话时调用
+registerTool({
+  name: "create_reminder",
+  description: "为老师创建一个提醒，到时间后会提醒老师。delay_minutes 和 time 二选一。",
+  parameters: {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "提醒的内容，如“开会”" },
+      delay_minutes: { type: "number", description: "从现在起多少分钟后提醒" },
+      time: { type: "string", description: "提醒的时刻，24 小时制 HH:MM，已经过去时为明天的这个时刻" },
+      repeat_minutes: { type: "number", description: "重复间隔（分钟），如每天为 1440，不重复时省略" }
+    },
+    required: ["message"]
+  },
+  permission: "none",
+  describe: (args) => `创建提醒：${stringArg(args, "message")}`,
+  run: async (args) => {
+    const dueAt = resolveDueAt(args, new Date());
+    const repeatMinutes = Math.max(0, Math.round(numberArg(args, "repeat_minutes") ?? 0));
+    const message = stringArg(args, "message");
+    // LLM 重复调用（如请求重试后再次调用）时不再创建，直接返回刚创建的提醒
+    const now = Date.now();
+    const existing = (await getReminders()).find(reminder =>
+      reminder.message === message &&
+      reminder.repeatMinutes === repeatMinutes &&
+      now - reminder.createdAt < REMINDER_DUPLICATE_WINDOW_MS &&
+      Math.abs(reminder.dueAt - dueAt) < REMINDER_DUPLICATE_WINDOW_MS
+    );
+    const reminder = existing ?? await addReminder(message, dueAt, repeatMinutes);
+    return {
+      message: reminder.message,
+      dueAt: formatDateTime(new Date(reminder.dueAt)),
+      repeatMinutes: reminder.repeatMinutes
+    };
+  }
+});
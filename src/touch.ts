@@ -0,0 +1,46 @@
+import * as spine from "@esotericsoftware/spine-webgl";
+
+// 触摸互动：点击、双击、长按角色身上的不同部位，播放心情动画并说一句话
+
+export type TouchGesture = "tap" | "doubleTap" | "longPress";
+
+// 一种手势的反应
+export interface TouchReaction {
+  mood: string;     // 触发的心情
+  lines: string[];  // 本地台词，随机选一句；为空或开启 LLM 反应时由 LLM 生成
+}
+
+// 以骨骼为中心的圆形触摸区域
+export interface TouchRegion {
+  id: string;
+  name: string;
+  bone: string;    // 区域中心所在的骨骼
+  radius: number;  // 半径，相对角色高度的比例
+  action: string;  // 发给 LLM 的动作描述
+  reactions: Partial<Record<TouchGesture, TouchReaction>>;
+}
+
+// 查找点中的区域（世界坐标，Y 向上），按列表顺序优先，所以小区域应放在前面
+export function findTouchRegion(
+  skeleton: spine.Skeleton,
+  regions: TouchRegion[],
+  x: number,
+  y: number,
+  skeletonHeight: number
+): TouchRegion | null {
+  for (const region of regions) {
+    const bone = skeleton.findBone(region.bone);
+    if (!bone) continue;
+    const radius = region.radius * skeletonHeight;
+    if (Math.hypot(x - bone.worldX, y - bone.worldY) <= radius) {
+      return region;
+    }
+  }
+  return null;
+}
+
+// 随机选一句台词
+export function pickReactionLine(reaction: TouchReaction): string {
+  if (reaction.lines.length === 0) return "";
+  return reaction.lines[Math.floor(Math.random() * reaction.lines.length)];
+}
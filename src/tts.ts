@@ -0,0 +1,152 @@
+import { createBackendFetch, TTS_SERVICE_ID } from "./backendFetch";
+
+// 日语语音合成（TTS）
+// 后端可替换：本地 HTTP 接口（VITS / GPT-SoVITS 等）或浏览器自带的 Web Speech API
+
+export type TtsBackendType = "http" | "webspeech";
+
+export interface TtsOptions {
+  endpoint: string; // HTTP 接口地址，支持 {text} / {voice} 占位符
+  voice: string;    // 音色（HTTP 接口的说话人 id，或 Web Speech 的语音名称）
+  volume: number;   // 音量 0 ~ 1
+}
+
+// 一次正在进行的播放
+export interface TtsPlayback {
+  finished: Promise<void>; // 播放结束（或被停止）时完成
+  getLevel(): number;      // 当前音量 0 ~ 1，用于驱动口型
+  stop(): void;
+}
+
+export interface TtsBackend {
+  speak(text: string): Promise<TtsPlayback>;
+}
+
+// 把振幅换算到 0 ~ 1 的放大倍数（语音的 RMS 一般在 0.3 以下）
+const LEVEL_GAIN = 4;
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+// 本地 HTTP 接口：
+// 地址中有 {text} 占位符时用 GET 请求（如 GPT-SoVITS 的 /?text={text}&text_language=ja），
+// 否则 POST JSON { text, voice, language }，接口返回音频数据
+// 请求由 Rust 端发送（本地接口一般没有 CORS 响应头），接口地址以已保存的设置为准
+export function createHttpTtsBackend(options: TtsOptions): TtsBackend {
+  const fetch = createBackendFetch({ service: TTS_SERVICE_ID });
+  return {
+    async speak(text: string): Promise<TtsPlayback> {
+      let response: Response;
+      if (options.endpoint.includes("{text}")) {
+        const url = options.endpoint
+          .replace(/\{text\}/g, encodeURIComponent(text))
+          .replace(/\{voice\}/g, encodeURIComponent(options.voice));
+        response = await fetch(url);
+      } else {
+        response = await fetch(options.endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text, voice: options.voice, language: "ja" })
+        });
+      }
+      if (!response.ok) {
+        throw new Error(`TTS 请求失败: ${response.status} ${response.statusText}`);
+      }
+
+      const context = getAudioContext();
+      await context.resume();
+      const buffer = await context.decodeAudioData(await response.arrayBuffer());
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      const gain = context.createGain();
+      gain.gain.value = options.volume;
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(gain);
+      gain.connect(analyser);
+      analyser.connect(context.destination);
+
+      const samples = new Float32Array(analyser.fftSize);
+      const finished = new Promise<void>((resolve) => {
+        source.onended = () => resolve();
+      });
+      source.start();
+
+      return {
+        finished,
+        getLevel() {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          for (const sample of samples) {
+            sum += sample * sample;
+          }
+          // 音量已经包含了 gain，这里除回去，口型大小不随音量设置变化
+          const rms = Math.sqrt(sum / samples.length) / Math.max(options.volume, 0.01);
+          return Math.min(1, rms * LEVEL_GAIN);
+        },
+        stop() {
+          try {
+            source.stop();
+          } catch {
+            // 已经停止
+          }
+        }
+      };
+    }
+  };
+}
+
+// 浏览器自带的 Web Speech API
+// 拿不到音频数据，口型用说话期间的周期性开合近似
+export function createWebSpeechTtsBackend(options: TtsOptions): TtsBackend {
+  return {
+    async speak(text: string): Promise<TtsPlayback> {
+      if (!("speechSynthesis" in window)) {
+        throw new Error("当前环境不支持 Web Speech API");
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = "ja-JP";
+      utterance.volume = options.volume;
+      const voice = speechSynthesis.getVoices().find(v => v.name === options.voice)
+        ?? speechSynthesis.getVoices().find(v => v.lang.startsWith("ja"));
+      if (voice) {
+        utterance.voice = voice;
+      }
+
+      let speaking = false;
+      const finished = new Promise<void>((resolve) => {
+        utterance.onstart = () => { speaking = true; };
+        utterance.onend = () => { speaking = false; resolve(); };
+        utterance.onerror = () => { speaking = false; resolve(); };
+      });
+
+      speechSynthesis.cancel();
+      speechSynthesis.speak(utterance);
+
+      return {
+        finished,
+        getLevel() {
+          if (!speaking) return 0;
+          return 0.5 + 0.5 * Math.sin(performance.now() / 60);
+        },
+        stop() {
+          speechSynthesis.cancel();
+        }
+      };
+    }
+  };
+}
+
+export function createTtsBackend(type: TtsBackendType, options: TtsOptions): TtsBackend {
+  return type === "webspeech"
+    ? createWebSpeechTtsBackend(options)
+    : createHttpTtsBackend(options);
+}
@@ -0,0 +1,68 @@
+import OpenAI from "openai";
+
+// 语音输入：录制麦克风音频，交给 OpenAI 兼容的 /audio/transcriptions 接口识别
+
+// 一次正在进行的录音
+export interface Recording {
+  stop(): Promise<Blob>; // 停止录音并返回音频
+  cancel(): void;        // 放弃录音
+}
+
+// 太短的录音视为误触
+export const MIN_RECORDING_MS = 300;
+
+// 开始录音（首次调用时会请求麦克风权限）
+export async function startRecording(): Promise<Recording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.addEventListener("dataavailable", (e) => {
+    if (e.data.size > 0) {
+      chunks.push(e.data);
+    }
+  });
+
+  const releaseMicrophone = () => {
+    stream.getTracks().forEach(track => track.stop());
+  };
+
+  recorder.start();
+
+  return {
+    stop() {
+      return new Promise<Blob>((resolve) => {
+        recorder.addEventListener("stop", () => {
+          releaseMicrophone();
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        }, { once: true });
+        recorder.stop();
+      });
+    },
+    cancel() {
+      if (recorder.state !== "inactive") {
+        recorder.stop();
+      }
+      releaseMicrophone();
+    }
+  };
+}
+
+// 根据录音格式选择文件扩展名（接口按扩展名判断格式）
+function extensionForMimeType(mimeType: string): string {
+  if (mimeType.includes("mp4")) return "mp4";
+  if (mimeType.includes("ogg")) return "ogg";
+  if (mimeType.includes("wav")) return "wav";
+  return "webm";
+}
+
+// 语音识别
+export async function transcribe(client: OpenAI, model: string, language: string, audio: Blob): Promise<string> {
+  const file = new File([audio], `speech.${extensionForMimeType(audio.type)}`, { type: audio.type });
+  const result = await client.audio.transcriptions.create({
+    file,
+    model,
+    language: language || undefined,
+  });
+  return result.text.trim();
+}